@@ -0,0 +1,97 @@
+import {
+  isGitRepository,
+  getHeadCommit,
+  getCommitDiff,
+  getCommitMessage,
+  getPublishedCommits,
+  keepTrailers,
+  amendHeadMessage,
+  buildCommitCommand,
+  CommitFlags
+} from '../utils/git.js';
+import { generateCommitMessage, recordCommit, CommitSuggestion } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff } from '../services/heuristics.js';
+import { isInteractive } from '../utils/prompt.js';
+import { reviewMessage } from './commit.js';
+import type { MessageFormat } from '../utils/config.js';
+import chalk from 'chalk';
+
+interface AmendOptions extends Omit<CommitFlags, 'amend'> {
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  body?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+export async function amendCommand(options: AmendOptions = {}): Promise<void> {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    const head = getHeadCommit();
+    if (!head) {
+      throw new Error('No commit to amend yet');
+    }
+
+    if (getPublishedCommits([head]).length > 0 && !options.force) {
+      throw new Error('HEAD is already on the upstream branch and rewording it needs a force push. Use --force to amend anyway');
+    }
+
+    const diff = getCommitDiff('HEAD');
+    if (!diff.trim()) {
+      throw new Error('HEAD has no changes to describe');
+    }
+
+    const current = getCommitMessage('HEAD');
+    console.log(chalk.bold('Current message:'));
+    console.log(chalk.gray('  ' + current.split('\n').join('\n  ')));
+    console.log('');
+
+    console.log(chalk.blue('🔎︎ Generating commit message...'));
+    const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format });
+
+    // Signed-off-by and other trailers of the original message are kept
+    const format = (next: CommitSuggestion): string => keepTrailers(formatCommitMessage(next, {
+      format: options.format,
+      files: extractFilesFromDiff(diff),
+      body: options.body
+    }), current);
+
+    const message = options.yes || !isInteractive()
+      ? format(suggestion)
+      : await reviewMessage(suggestion, format, () =>
+          generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format, skipCache: true })
+        );
+
+    if (message === null) {
+      console.log(chalk.yellow('⚠  Amend aborted'));
+      process.exit(0);
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.gray('Dry run, would execute:'));
+      console.log(buildCommitCommand(message, { ...options, amend: true }));
+      return;
+    }
+
+    amendHeadMessage(message, options);
+    recordCommit(diff, message);
+
+    console.log(chalk.green('✓  Amended: ') + message.split('\n')[0]);
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  An unexpected error occurred'));
+    }
+    process.exit(1);
+  }
+}
@@ -1,8 +1,26 @@
-import { isGitRepository, getGitDiff, hasChanges } from '../utils/git.js';
+import { isGitRepository, getGitDiff, getDiffStats, hasChanges, resolveDiffSelection } from '../utils/git.js';
+import { parseDiff } from '../utils/diff.js';
+import { printIncluded } from '../utils/report.js';
 import { generateCommitMessage } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff, analyzeDiff, summarizeDiff } from '../services/heuristics.js';
+import { classifyIntent } from '../services/classifier.js';
+import type { MessageFormat } from '../utils/config.js';
 import chalk from 'chalk';
 
-export async function analyzeCommand(): Promise<void> {
+interface AnalyzeOptions {
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  breaking?: boolean;
+  body?: boolean;
+  staged?: boolean;
+  unstaged?: boolean;
+  all?: boolean;
+  explain?: boolean;
+}
+
+export async function analyzeCommand(paths: string[] = [], options: AnalyzeOptions = {}): Promise<void> {
   try {
     // Validate git repository
     if (!isGitRepository()) {
@@ -10,26 +28,45 @@ export async function analyzeCommand(): Promise<void> {
       process.exit(1);
     }
 
+    const selection = resolveDiffSelection(options, paths, 'all');
+
     // Check for changes
-    if (!hasChanges()) {
+    if (!hasChanges(selection)) {
       console.log(chalk.yellow('⚠  No changes detected'));
       process.exit(0);
     }
 
     // Get diff
-    const diff = getGitDiff();
+    const diff = getGitDiff(selection);
     
     if (!diff.trim()) {
       console.log(chalk.yellow('⚠  No changes to analyze'));
       process.exit(0);
     }
 
+    const summary = summarizeDiff(parseDiff(diff, getDiffStats(selection)));
+    printIncluded(diff, selection);
+
     // Generate commit message
     console.log(chalk.blue('🔎︎ Analyzing changes...'));
-    const suggestion = await generateCommitMessage(diff);
+    const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format, summary });
 
     // Print result
-    console.log(chalk.green(`${suggestion.intent}: ${suggestion.message}`));
+    const commitMessage = formatCommitMessage(suggestion, {
+      format: options.format,
+      files: extractFilesFromDiff(diff),
+      breaking: options.breaking,
+      body: options.body
+    });
+    const [subject, ...body] = commitMessage.split('\n');
+    console.log(chalk.green(subject));
+    if (body.length > 0) {
+      console.log(chalk.gray(body.join('\n')));
+    }
+
+    if (options.explain) {
+      printExplanation(diff);
+    }
 
   } catch (error) {
     if (error instanceof Error) {
@@ -39,4 +76,50 @@ export async function analyzeCommand(): Promise<void> {
     }
     process.exit(1);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Show how the offline classifier scored the diff and which signals drove the result
+ */
+function printExplanation(diff: string): void {
+  const analysis = analyzeDiff(diff);
+  const { scores, contributions } = classifyIntent(analysis);
+
+  console.log('');
+  console.log(chalk.bold.cyan('🧮 INTENT SCORES'));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  // Mirrors determineIntent, which settles these before any scoring
+  if (!analysis.hasChanges) {
+    console.log(chalk.gray('  No changed lines, the change is classified as "Chore"'));
+    return;
+  }
+
+  if (contributions.length === 0) {
+    console.log(chalk.gray('  No signals fired, the change is classified as "Update"'));
+    return;
+  }
+
+  scores.filter(s => s.score > 0).forEach(({ intent, score, confidence }) => {
+    const percent = Math.round(confidence * 100);
+    const bar = '█'.repeat(Math.round(confidence * 20)).padEnd(20, '░');
+    console.log(`  ${chalk.white(intent.padEnd(14))} ${chalk.green(bar)} ${String(percent).padStart(3)}%  ${chalk.gray(`(${formatPoints(score)} pts)`)}`);
+  });
+
+  console.log('');
+  console.log(chalk.bold('  Signals'));
+
+  contributions.forEach(({ signal, intent, lines, weight, points }) => {
+    const detail = `${lines} line${lines !== 1 ? 's' : ''} × ${weight} = ${formatPoints(points)}`;
+    console.log(`  ${chalk.white(signal.padEnd(20))} ${detail.padEnd(26)} ${chalk.gray('→ ' + intent)}`);
+  });
+
+  if (analysis.details.breakingChanges.length > 0) {
+    console.log('');
+    console.log(chalk.bold.red('  ⚠  Breaking: ') + analysis.details.breakingChanges.join(', '));
+  }
+}
+
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(1);
+}
@@ -0,0 +1,197 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import {
+  isGitRepository,
+  getRepoRoot,
+  getCommitMessages,
+  getCommitDiff,
+  getLatestTag,
+  getStagedFilesOutside,
+  stageChanges,
+  executeCommit,
+  buildCommitCommand,
+  shellQuote,
+  tagExists,
+  createTag
+} from '../utils/git.js';
+import { recommendBump, BumpRecommendation, CommitImpact } from '../services/bump.js';
+import { formatCommitMessage } from '../services/format.js';
+import chalk from 'chalk';
+
+interface BumpOptions {
+  from?: string;
+  write?: boolean;
+  tag?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+export function bumpCommand(options: BumpOptions = {}): void {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    const root = getRepoRoot() ?? process.cwd();
+    const packagePath = join(root, 'package.json');
+    const latestTag = getLatestTag();
+    const from = options.from ?? latestTag ?? undefined;
+
+    // package.json is the source of truth when there is one, then the latest tag
+    const current = readPackageVersion(packagePath) ?? latestTag?.replace(/^v/, '') ?? '0.0.0';
+    const tagPrefix = !latestTag || latestTag.startsWith('v') ? 'v' : '';
+
+    const commits = getCommitMessages(from ? `${from}..HEAD` : 'HEAD');
+
+    if (commits.length === 0) {
+      console.log(chalk.yellow(`ℹ No commits ${from ? `since ${from}` : 'found'}`));
+      return;
+    }
+
+    const recommendation = recommendBump(commits, current, getCommitDiff);
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...recommendation, from: from ?? null }, null, 2));
+      return;
+    }
+
+    printRecommendation(recommendation, from, !!options.dryRun);
+
+    if (!recommendation.next) {
+      return;
+    }
+
+    const next = recommendation.next;
+    const tag = `${tagPrefix}${next}`;
+
+    if (options.tag && tagExists(tag)) {
+      throw new Error(`Tag ${tag} already exists`);
+    }
+
+    if (options.write && !existsSync(packagePath)) {
+      throw new Error('No package.json in the repository root');
+    }
+
+    const releaseMessage = formatCommitMessage(
+      { intent: 'Chore', message: `release ${next}` },
+      { files: ['package.json'], body: false }
+    );
+
+    if (options.dryRun) {
+      if (options.write || options.tag) {
+        console.log(chalk.gray('Dry run, would execute:'));
+      }
+      if (options.write) {
+        console.log(`set "version" to "${next}" in package.json`);
+      }
+      if (options.write && options.tag) {
+        console.log(['git', 'add', '--', packagePath].map(shellQuote).join(' '));
+        console.log(buildCommitCommand(releaseMessage));
+      }
+      if (options.tag) {
+        console.log(['git', 'tag', '-a', tag, '-m', tag].map(shellQuote).join(' '));
+      }
+      return;
+    }
+
+    if (options.write) {
+      writePackageVersion(packagePath, next);
+      console.log(chalk.green(`✓  Updated package.json to ${next}`));
+    }
+
+    if (options.tag) {
+      // The tag should point at the commit that carries the new version
+      if (options.write) {
+        const outside = getStagedFilesOutside([packagePath]);
+        if (outside.length > 0) {
+          throw new Error(`Other staged files would be part of the release commit: ${outside.join(', ')}`);
+        }
+        stageChanges([packagePath]);
+        executeCommit(releaseMessage);
+      }
+
+      createTag(tag, tag);
+      console.log(chalk.green(`✓  Tagged ${tag}`));
+    }
+
+    if (!options.write && !options.tag) {
+      console.log(chalk.gray(`  Apply it with commitect bump --write --tag`));
+    }
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  Failed to recommend a version'));
+    }
+    process.exit(1);
+  }
+}
+
+function readPackageVersion(path: string): string | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const version = JSON.parse(readFileSync(path, 'utf-8')).version;
+    return typeof version === 'string' ? version : null;
+  } catch {
+    throw new Error(`Cannot parse ${path}`);
+  }
+}
+
+/**
+ * Replace the version in place so the file keeps its formatting
+ */
+function writePackageVersion(path: string, version: string): void {
+  const content = readFileSync(path, 'utf-8');
+  const pattern = /("version"\s*:\s*")[^"]*(")/;
+
+  const updated = pattern.test(content)
+    ? content.replace(pattern, `$1${version}$2`)
+    : JSON.stringify({ ...JSON.parse(content), version }, null, 2) + '\n';
+
+  writeFileSync(path, updated, 'utf-8');
+}
+
+function printRecommendation(recommendation: BumpRecommendation, from: string | undefined, verbose: boolean): void {
+  const { current, level, next, commits } = recommendation;
+  const row = (label: string, value: string): void =>
+    console.log(chalk.white(`  ${label.padEnd(10)}`) + value);
+
+  console.log('');
+  console.log(chalk.bold.cyan('🔖 VERSION BUMP'));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  row('Current', current);
+  row('Commits', `${commits.length} ${from ? `since ${from}` : 'in total'}`);
+  row('Bump', level && next ? chalk.bold.green(`${level} → ${next}`) : chalk.dim('none'));
+
+  console.log(chalk.gray('─'.repeat(70)));
+
+  // The dry run explains every commit; otherwise only the ones that set the level
+  const shown = verbose ? commits : commits.filter(c => c.level === level);
+
+  if (level) {
+    console.log(chalk.white(verbose ? '  Commits:' : '  Driven by:'));
+    shown.forEach(printImpact);
+  } else {
+    console.log(chalk.yellow('  ℹ No release needed: only documentation, style and test changes'));
+    if (verbose) {
+      shown.forEach(printImpact);
+    }
+  }
+
+  console.log('');
+}
+
+function printImpact(impact: CommitImpact): void {
+  const level = impact.level ? impact.level.padEnd(6) : 'none  ';
+  const color = impact.level === 'major' ? chalk.red : impact.level === 'minor' ? chalk.green : chalk.gray;
+
+  console.log(`    ${chalk.gray(impact.shortHash)}  ${color(level)}  ${impact.subject}`);
+  console.log(chalk.gray(`             ${impact.reason}`));
+}
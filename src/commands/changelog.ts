@@ -0,0 +1,65 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { isGitRepository, getRepoRoot, getCommitMessages, getLatestTag } from '../utils/git.js';
+import { buildChangelog, renderChangelog, prependChangelog, Changelog } from '../services/changelog.js';
+import chalk from 'chalk';
+
+interface ChangelogOptions {
+  from?: string;
+  to?: string;
+  release?: string;
+  json?: boolean;
+  write?: string | boolean;
+}
+
+export function changelogCommand(options: ChangelogOptions = {}): void {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    const to = options.to ?? 'HEAD';
+    // Default to everything since the last release
+    const from = options.from ?? getLatestTag(to) ?? undefined;
+    const commits = getCommitMessages(from ? `${from}..${to}` : to);
+
+    if (commits.length === 0) {
+      console.log(chalk.yellow(`ℹ No commits ${from ? `since ${from}` : 'found'}`));
+      return;
+    }
+
+    const changelog = buildChangelog(commits, { version: options.release ?? 'Unreleased', from, to });
+
+    if (options.json) {
+      console.log(JSON.stringify(changelog, null, 2));
+    } else if (!options.write) {
+      console.log(renderChangelog(changelog));
+    }
+
+    if (options.write) {
+      writeChangelog(changelog, typeof options.write === 'string' ? resolve(options.write) : defaultPath());
+    }
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  Failed to generate the changelog'));
+    }
+    process.exit(1);
+  }
+}
+
+function defaultPath(): string {
+  return join(getRepoRoot() ?? process.cwd(), 'CHANGELOG.md');
+}
+
+function writeChangelog(changelog: Changelog, path: string): void {
+  const existing = existsSync(path) ? readFileSync(path, 'utf-8') : '';
+  writeFileSync(path, prependChangelog(existing, renderChangelog(changelog), changelog.version), 'utf-8');
+
+  const count = changelog.sections.reduce((total, section) => total + section.entries.length, 0);
+  console.log(chalk.green(`✓  Added ${changelog.version} to ${path} (${count} commit${count !== 1 ? 's' : ''})`));
+}
@@ -1,17 +1,41 @@
-import { commitCache } from '../utils/cache.js';
+import { commitCache, ClearFilter } from '../utils/cache.js';
+import { resolveRepoPath } from '../utils/git.js';
+import { parseDuration } from '../utils/time.js';
 import chalk from 'chalk';
 
-export function clearCacheCommand(): void {
+interface ClearCacheOptions {
+  repo?: string | boolean;
+  olderThan?: string;
+}
+
+export function clearCacheCommand(options: ClearCacheOptions = {}): void {
   try {
+    const filter: ClearFilter = {};
+
+    if (options.repo) {
+      filter.repo = resolveRepoPath(options.repo);
+    }
+
+    if (options.olderThan) {
+      filter.olderThan = parseDuration(options.olderThan);
+    }
+
     const stats = commitCache.getStats();
-    
+
     if (stats.size === 0) {
       console.log(chalk.yellow('ℹ  Cache is already empty'));
       return;
     }
 
-    commitCache.clear();
-    console.log(chalk.green(`✓  Cache cleared (${stats.size} entries removed)`));
+    const removed = commitCache.clear(filter);
+
+    if (filter.repo === undefined && filter.olderThan === undefined) {
+      console.log(chalk.green(`✓  Cache cleared (${removed} entries removed)`));
+    } else if (removed === 0) {
+      console.log(chalk.yellow('ℹ  No cache entries matched'));
+    } else {
+      console.log(chalk.green(`✓  Removed ${removed} cache entr${removed !== 1 ? 'ies' : 'y'}`));
+    }
   } catch (error) {
     if (error instanceof Error) {
       console.error(chalk.red('✗  ' + error.message));
@@ -20,4 +44,4 @@ export function clearCacheCommand(): void {
     }
     process.exit(1);
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,45 @@
-import { isGitRepository, getGitDiff, hasChanges, executeCommit } from '../utils/git.js';
-import { generateCommitMessage } from '../services/llm.js';
+import {
+  isGitRepository,
+  getGitDiff,
+  getAmendDiff,
+  getDiffStats,
+  getHeadCommit,
+  getPublishedCommits,
+  hasChanges,
+  executeCommit,
+  buildCommitCommand,
+  shellQuote,
+  resolveDiffSelection,
+  stageChanges,
+  saveIndex,
+  restoreIndex,
+  getStagedFilesOutside,
+  DiffSelection,
+  CommitFlags
+} from '../utils/git.js';
+import { generateCommitMessage, recordCommit, CommitSuggestion } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff, summarizeDiff } from '../services/heuristics.js';
+import { INTENTS } from '../services/intents.js';
+import { parseDiff } from '../utils/diff.js';
+import { printIncluded } from '../utils/report.js';
+import { isInteractive, choose, pick, editInEditor } from '../utils/prompt.js';
+import type { MessageFormat } from '../utils/config.js';
 import chalk from 'chalk';
 
-export async function commitCommand(): Promise<void> {
+interface CommitOptions extends CommitFlags {
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  breaking?: boolean;
+  body?: boolean;
+  staged?: boolean;
+  all?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+}
+
+export async function commitCommand(paths: string[] = [], options: CommitOptions = {}): Promise<void> {
   try {
     // Validate git repository
     if (!isGitRepository()) {
@@ -10,30 +47,101 @@ export async function commitCommand(): Promise<void> {
       process.exit(1);
     }
 
-    // Check for changes
-    if (!hasChanges()) {
+    // Only what is staged gets committed, so only the staged diff is described
+    const requested = resolveDiffSelection(options, paths, 'staged');
+
+    // With --all the working tree is described as it is, and only staged once the message is accepted
+    const stageAll = requested.mode === 'all';
+    const selection: DiffSelection = { mode: stageAll ? 'all' : 'staged', paths };
+
+    if (options.amend) {
+      const head = getHeadCommit();
+      if (!head) {
+        throw new Error('No commit to amend yet');
+      }
+      if (getPublishedCommits([head]).length > 0) {
+        console.log(chalk.yellow('⚠  HEAD is already on the upstream branch, amending it needs a force push'));
+      }
+    }
+
+    if (paths.length > 0) {
+      const outside = getStagedFilesOutside(paths);
+      if (outside.length > 0) {
+        throw new Error(`Staged files outside the given paths would also be committed: ${outside.join(', ')}`);
+      }
+    }
+
+    // Check for changes; an amend may only change the message
+    if (!options.amend && !hasChanges(selection)) {
       console.log(chalk.yellow('⚠  No changes to commit'));
+      if (hasChanges({ mode: 'unstaged', paths })) {
+        console.log(chalk.gray('  Stage your changes with git add, or use --all'));
+      }
       process.exit(0);
     }
 
-    // Get diff
-    const diff = getGitDiff();
+    // Get diff, for an amend the whole commit as it will be
+    const diff = options.amend ? getAmendDiff(selection) : getGitDiff(selection);
     
     if (!diff.trim()) {
       console.log(chalk.yellow('⚠  No changes to commit'));
       process.exit(0);
     }
 
+    // An amend is described against HEAD's parent, which the stats can't see
+    const summary = summarizeDiff(parseDiff(diff, options.amend ? [] : getDiffStats(selection)));
+
+    printIncluded(diff, selection);
+
     // Generate commit message
     console.log(chalk.blue('🔎︎ Generating commit message...'));
-    const suggestion = await generateCommitMessage(diff);
+    const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format, summary });
+
+    // Build commit message as "intent: message" or "type(scope): message"
+    const format = (next: CommitSuggestion): string => formatCommitMessage(next, {
+      format: options.format,
+      files: extractFilesFromDiff(diff),
+      breaking: options.breaking,
+      body: options.body
+    });
+
+    const commitMessage = options.yes || !isInteractive()
+      ? format(suggestion)
+      : await reviewMessage(suggestion, format, () =>
+          generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format, summary, skipCache: true })
+        );
+
+    if (commitMessage === null) {
+      console.log(chalk.yellow('⚠  Commit aborted'));
+      process.exit(0);
+    }
 
-    // Build commit message as "intent: message"
-    const commitMessage = `${suggestion.intent}: ${suggestion.message}`;
+    if (options.dryRun) {
+      console.log(chalk.gray('Dry run, would execute:'));
+      if (stageAll) {
+        console.log(['git', 'add', '-A', '--', ...paths].map(shellQuote).join(' '));
+      }
+      console.log(buildCommitCommand(commitMessage, options));
+      return;
+    }
+
+    // Put the index back if the commit fails, so --all leaves nothing staged behind
+    const index = stageAll ? saveIndex() : null;
+    if (stageAll) {
+      stageChanges(paths);
+    }
 
     // Execute git commit
     console.log(chalk.blue('🖫  Committing changes...'));
-    executeCommit(commitMessage);
+    try {
+      executeCommit(commitMessage, options);
+    } catch (error) {
+      if (index) {
+        restoreIndex(index);
+      }
+      throw error;
+    }
+    recordCommit(diff, commitMessage);
 
     console.log(chalk.green('✓  Committed: ') + commitMessage);
 
@@ -45,4 +153,66 @@ export async function commitCommand(): Promise<void> {
     }
     process.exit(1);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Let the user accept, edit, regenerate or re-classify the suggestion before committing
+ * @param suggestion - The generated suggestion
+ * @param format - Turns a suggestion into the final message
+ * @param regenerate - Produces a fresh suggestion, bypassing the cache
+ * @returns The message to commit, or null if the user aborted
+ */
+export async function reviewMessage(
+  suggestion: CommitSuggestion,
+  format: (suggestion: CommitSuggestion) => string,
+  regenerate: () => Promise<CommitSuggestion>
+): Promise<string | null> {
+  let message = format(suggestion);
+
+  for (;;) {
+    console.log('');
+    console.log(chalk.bold('Suggested commit message:'));
+    console.log(chalk.green('  ' + message.split('\n').join('\n  ')));
+    console.log('');
+
+    const choice = await choose('Commit with this message?', [
+      { key: 'y', label: 'accept' },
+      { key: 'e', label: 'edit' },
+      { key: 'r', label: 'regenerate' },
+      { key: 'i', label: 'change intent' },
+      { key: 'n', label: 'abort' }
+    ]);
+
+    switch (choice) {
+      case 'y':
+        return message;
+
+      case 'e': {
+        const edited = editInEditor(message);
+        if (!edited) {
+          return null;
+        }
+        message = edited;
+        break;
+      }
+
+      case 'r':
+        console.log(chalk.blue('🔎︎ Regenerating commit message...'));
+        suggestion = await regenerate();
+        message = format(suggestion);
+        break;
+
+      case 'i': {
+        const intent = await pick('Intent', INTENTS);
+        if (intent) {
+          suggestion = { ...suggestion, intent };
+          message = format(suggestion);
+        }
+        break;
+      }
+
+      default:
+        return null;
+    }
+  }
+}
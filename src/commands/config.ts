@@ -0,0 +1,139 @@
+import {
+  getConfig,
+  getConfigPath,
+  getConfigSource,
+  isConfigKey,
+  parseConfigValue,
+  readRawConfigFile,
+  writeConfigFile,
+  CONFIG_KEYS,
+  GLOBAL_ONLY_KEYS,
+  CommitectConfig,
+  ConfigScope
+} from '../utils/config.js';
+import { listProviders } from '../services/providers/index.js';
+import chalk from 'chalk';
+
+interface ConfigOptions {
+  local?: boolean;
+}
+
+export function configCommand(action: string, key?: string, value?: string, options: ConfigOptions = {}): void {
+  try {
+    const scope: ConfigScope = options.local ? 'local' : 'global';
+
+    switch (action) {
+      case 'list':
+        listConfig();
+        break;
+
+      case 'get':
+        getValue(requireKey(key));
+        break;
+
+      case 'set':
+        if (value === undefined) {
+          throw new Error('Usage: commitect config set <key> <value>');
+        }
+        setValue(requireKey(key), value, scope);
+        break;
+
+      case 'unset':
+        unsetValue(requireKey(key), scope);
+        break;
+
+      default:
+        throw new Error(`Unknown action "${action}". Use get, set, list or unset`);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  Failed to update configuration'));
+    }
+    process.exit(1);
+  }
+}
+
+function requireKey(key?: string): keyof CommitectConfig {
+  if (!key) {
+    throw new Error('Missing config key');
+  }
+
+  if (!isConfigKey(key)) {
+    throw new Error(`Unknown config key "${key}". Valid keys: ${Object.keys(CONFIG_KEYS).join(', ')}`);
+  }
+
+  return key;
+}
+
+function listConfig(): void {
+  const config = getConfig();
+
+  console.log('');
+  console.log(chalk.bold.cyan('⚙️  CONFIGURATION'));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  (Object.keys(CONFIG_KEYS) as (keyof CommitectConfig)[]).forEach(key => {
+    const value = config[key];
+    const source = value === undefined ? 'provider default' : getConfigSource(key);
+    const shown = value === undefined ? chalk.dim('(not set)') : formatValue(key, value);
+
+    console.log(chalk.white(`  ${key.padEnd(18)}`) + shown + chalk.gray(`  [${source}]`));
+  });
+
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log(chalk.gray(`  Global: ${getConfigPath('global')}`));
+  console.log(chalk.gray(`  Local:  ${getConfigPath('local') ?? '(not in a git repository)'}`));
+  console.log('');
+}
+
+function getValue(key: keyof CommitectConfig): void {
+  const value = getConfig()[key];
+
+  if (value === undefined) {
+    process.exit(1);
+  }
+
+  console.log(Array.isArray(value) ? JSON.stringify(value) : String(value));
+}
+
+function setValue(key: keyof CommitectConfig, raw: string, scope: ConfigScope): void {
+  if (scope === 'local' && GLOBAL_ONLY_KEYS.includes(key)) {
+    throw new Error(`"${key}" can only be set globally`);
+  }
+
+  const value = parseConfigValue(key, raw);
+
+  if (key === 'provider' && !listProviders().includes(raw)) {
+    throw new Error(`Unknown provider "${raw}". Available providers: ${listProviders().join(', ')}`);
+  }
+
+  // Other keys stay as written, including ones this version doesn't know
+  const data = readRawConfigFile(scope);
+  writeConfigFile(scope, { ...data, [key]: value });
+
+  console.log(chalk.green(`✓  Set ${key} = ${formatValue(key, value)}`) + chalk.gray(` (${scope})`));
+}
+
+function unsetValue(key: keyof CommitectConfig, scope: ConfigScope): void {
+  const data = readRawConfigFile(scope);
+
+  if (data[key] === undefined) {
+    console.log(chalk.yellow(`ℹ  ${key} is not set in the ${scope} config`));
+    return;
+  }
+
+  delete data[key];
+  writeConfigFile(scope, data);
+
+  console.log(chalk.green(`✓  Unset ${key}`) + chalk.gray(` (${scope})`));
+}
+
+function formatValue(key: keyof CommitectConfig, value: unknown): string {
+  if (key === 'apiKey' && typeof value === 'string') {
+    return value.length > 8 ? `${value.slice(0, 4)}…${value.slice(-4)}` : '****';
+  }
+
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
@@ -1,9 +1,25 @@
-import { isGitRepository, getGitDiff, hasChanges } from '../utils/git.js';
+import { isGitRepository, getGitDiff, getDiffStats, hasChanges, resolveDiffSelection } from '../utils/git.js';
+import { parseDiff } from '../utils/diff.js';
+import { printIncluded } from '../utils/report.js';
 import { generateCommitMessage } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff, summarizeDiff } from '../services/heuristics.js';
+import type { MessageFormat } from '../utils/config.js';
 import clipboardy from 'clipboardy';
 import chalk from 'chalk';
 
-export async function copyCommand(): Promise<void> {
+interface CopyOptions {
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  breaking?: boolean;
+  body?: boolean;
+  staged?: boolean;
+  unstaged?: boolean;
+  all?: boolean;
+}
+
+export async function copyCommand(paths: string[] = [], options: CopyOptions = {}): Promise<void> {
   try {
     // Validate git repository
     if (!isGitRepository()) {
@@ -11,26 +27,36 @@ export async function copyCommand(): Promise<void> {
       process.exit(1);
     }
 
+    const selection = resolveDiffSelection(options, paths, 'all');
+
     // Check for changes
-    if (!hasChanges()) {
+    if (!hasChanges(selection)) {
       console.log(chalk.yellow('⚠  No changes detected'));
       process.exit(0);
     }
 
     // Get diff
-    const diff = getGitDiff();
+    const diff = getGitDiff(selection);
     
     if (!diff.trim()) {
       console.log(chalk.yellow('⚠  No changes to analyze'));
       process.exit(0);
     }
 
+    const summary = summarizeDiff(parseDiff(diff, getDiffStats(selection)));
+    printIncluded(diff, selection);
+
     // Generate commit message
     console.log(chalk.blue('🔎︎ Generating commit message...'));
-    const suggestion = await generateCommitMessage(diff);
+    const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format, summary });
 
-    // Build commit message as "intent: message"
-    const commitMessage = `${suggestion.intent}: ${suggestion.message}`;
+    // Build commit message as "intent: message" or "type(scope): message"
+    const commitMessage = formatCommitMessage(suggestion, {
+      format: options.format,
+      files: extractFilesFromDiff(diff),
+      breaking: options.breaking,
+      body: options.body
+    });
 
     // Copy to clipboard
     await clipboardy.write(commitMessage);
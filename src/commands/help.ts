@@ -43,40 +43,158 @@ export function helpCommand(): void {
   console.log(chalk.bold.green('  commitect commit'));
   console.log(chalk.gray('  │'));
   console.log(chalk.gray('  ├─ ') + 'Generates a commit message from your changes');
-  console.log(chalk.gray('  ├─ ') + 'Automatically executes: git commit -m "<message>"');
-  console.log(chalk.gray('  └─ ') + 'Fastest way to commit with AI-generated messages');
+  console.log(chalk.gray('  ├─ ') + 'Describes only staged changes, then runs git commit with the message on stdin');
+  console.log(chalk.gray('  ├─ ') + 'Asks to accept, edit, regenerate or change intent first');
+  console.log(chalk.gray('  ├─ ') + '--amend replaces HEAD, describing it together with the staged changes');
+  console.log(chalk.gray('  └─ ') + 'Use --yes to skip the review, --dry-run to only print the git command');
   console.log('');
   console.log(chalk.dim('     Warning: Make sure you have staged your changes first!'));
   console.log(chalk.dim('     $ git add .'));
   console.log(chalk.dim('     $ commitect commit'));
   console.log('');
 
+  // AMEND / REWORD
+  console.log(chalk.bold.green('  commitect amend') + chalk.gray('  |  ') + chalk.bold.green('commitect reword <range>'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Writes new messages for existing commits from their own diffs');
+  console.log(chalk.gray('  ├─ ') + 'reword shows old and new messages side by side, then rewrites the chosen ones');
+  console.log(chalk.gray('  └─ ') + 'Refuses commits already on the upstream branch unless --force');
+  console.log('');
+  console.log(chalk.dim('     $ commitect reword origin/main..HEAD'));
+  console.log('');
+
+  // SPLIT
+  console.log(chalk.bold.green('  commitect split'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Groups changes into config, code per directory, tests and docs');
+  console.log(chalk.gray('  ├─ ') + 'Generates a message for each group and shows the plan');
+  console.log(chalk.gray('  └─ ') + 'Stages and commits each group in order after confirmation');
+  console.log('');
+  console.log(chalk.dim('     $ commitect split --dry-run'));
+  console.log('');
+
+  // PR
+  console.log(chalk.bold.green('  commitect pr'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Describes the branch since its merge base with --base (default: main)');
+  console.log(chalk.gray('  ├─ ') + 'Summary, changes by intent, touched areas and testing notes');
+  console.log(chalk.gray('  └─ ') + 'Prints, copies (--copy) or writes the description (-o pr.md)');
+  console.log('');
+  console.log(chalk.dim('     $ commitect pr -o pr.md && gh pr create --body-file pr.md'));
+  console.log('');
+
   // HISTORY
   console.log(chalk.bold.green('  commitect history'));
   console.log(chalk.gray('  │'));
-  console.log(chalk.gray('  ├─ ') + 'Shows all cached commit messages');
-  console.log(chalk.gray('  ├─ ') + 'Displays timestamp and time ago for each entry');
-  console.log(chalk.gray('  └─ ') + 'Useful for reviewing past suggestions');
+  console.log(chalk.gray('  ├─ ') + 'Shows cached commit messages and whether they were committed');
+  console.log(chalk.gray('  ├─ ') + 'Filters with --repo, --intent, --since, --grep and --limit');
+  console.log(chalk.gray('  ├─ ') + 'Exports with --json or --csv');
+  console.log(chalk.gray('  └─ ') + 'history use <n> copies a past message, or commits with it (--commit)');
+  console.log('');
+  console.log(chalk.dim('     $ commitect history --repo --since 7d'));
   console.log('');
 
   // CLEAR-CACHE
   console.log(chalk.bold.green('  commitect clear-cache'));
   console.log(chalk.gray('  │'));
   console.log(chalk.gray('  ├─ ') + 'Clears all cached commit messages');
+  console.log(chalk.gray('  ├─ ') + '--repo [path] and --older-than <7d> clear only part of it');
   console.log(chalk.gray('  ├─ ') + 'Cache location: ~/.commitect/cache.json');
   console.log(chalk.gray('  └─ ') + 'Use when you want fresh suggestions');
   console.log('');
 
+  // CONFIG
+  console.log(chalk.bold.green('  commitect config <get|set|list|unset> [key] [value]'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Reads and writes settings such as provider, timeout and ignoredPaths');
+  console.log(chalk.gray('  ├─ ') + 'Global file: ~/.commitect/config.json');
+  console.log(chalk.gray('  ├─ ') + 'Use --local to write the repository .commitectrc (overrides global,');
+  console.log(chalk.gray('  │  ') + 'except provider, remote, endpoint and apiKey)');
+  console.log(chalk.gray('  └─ ') + 'ignoredPaths and .commitectignore take .gitignore patterns');
+  console.log('');
+  console.log(chalk.dim('     $ commitect config set provider ollama'));
+  console.log(chalk.dim('     $ commitect config set maxSubjectLength 60 --local'));
+  console.log('');
+
+  // HOOK
+  console.log(chalk.bold.green('  commitect hook <install|uninstall|status> [hooks...]'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Installs a prepare-commit-msg hook (honours core.hooksPath and husky)');
+  console.log(chalk.gray('  ├─ ') + 'Pre-fills the editor message when you run plain git commit');
+  console.log(chalk.gray('  └─ ') + 'Keeps and chains existing hooks; skips merges, amends and -m');
+  console.log('');
+
+  // LINT
+  console.log(chalk.bold.green('  commitect lint [message]'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Checks format, subject length, imperative mood and forbidden words');
+  console.log(chalk.gray('  ├─ ') + 'Reads a message, a file (--file) or a commit range (--range)');
+  console.log(chalk.gray('  └─ ') + 'Exits with 1 on violations; --json for machine-readable output');
+  console.log('');
+  console.log(chalk.dim('     $ commitect lint --range origin/main..HEAD'));
+  console.log(chalk.dim('     $ commitect hook install commit-msg'));
+  console.log('');
+
+  // CHANGELOG
+  console.log(chalk.bold.green('  commitect changelog'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Groups commits since the latest tag into Features, Bug Fixes, Refactors...');
+  console.log(chalk.gray('  ├─ ') + 'Picks the range with --from and --to; --json for machine-readable output');
+  console.log(chalk.gray('  └─ ') + '--release <version> --write prepends the section to CHANGELOG.md');
+  console.log('');
+  console.log(chalk.dim('     $ commitect changelog --release 1.3.0 --write'));
+  console.log('');
+
+  // BUMP
+  console.log(chalk.bold.green('  commitect bump'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Recommends major, minor or patch from the commits since the last tag');
+  console.log(chalk.gray('  ├─ ') + 'Detects breaking changes from messages and removed exports or endpoints');
+  console.log(chalk.gray('  └─ ') + '--write updates package.json, --tag creates the tag, --dry-run explains');
+  console.log('');
+  console.log(chalk.dim('     $ commitect bump --dry-run --write --tag'));
+  console.log('');
+
+  // STYLE
+  console.log(chalk.bold.green('  commitect style <show|refresh>'));
+  console.log(chalk.gray('  │'));
+  console.log(chalk.gray('  ├─ ') + 'Learns casing, mood, ticket prefixes, emoji and scopes from git log');
+  console.log(chalk.gray('  └─ ') + 'Every suggestion follows it; disable with config set style false');
+  console.log('');
+
   // HELP
   console.log(chalk.bold.green('  commitect help'));
   console.log(chalk.gray('  │'));
   console.log(chalk.gray('  └─ ') + 'Shows this help message');
   console.log('');
 
+  // OPTIONS
+  console.log(chalk.bold.yellow('🔧 OPTIONS'));
+  console.log('');
+  console.log(chalk.white('  -p, --provider <name>  ') + chalk.gray('detector (default), openai, ollama, heuristic'));
+  console.log(chalk.dim('     $ commitect analyze --provider heuristic'));
+  console.log(chalk.white('  --no-remote            ') + chalk.gray('Never send the diff over the network (offline engine only)'));
+  console.log(chalk.white('  -f, --format <format>  ') + chalk.gray('intent (default), conventional or plain'));
+  console.log(chalk.dim('     $ commitect commit --format conventional   # feat(api): add login endpoint'));
+  console.log(chalk.white('  --breaking             ') + chalk.gray('Mark the change as breaking (adds "!")'));
+  console.log(chalk.white('  --no-body              ') + chalk.gray('Only the subject line, no per-file body'));
+  console.log(chalk.white('  --staged               ') + chalk.gray('Only staged changes (default for commit)'));
+  console.log(chalk.white('  --unstaged             ') + chalk.gray('Only unstaged changes and untracked files (analyze, copy)'));
+  console.log(chalk.white('  --all                  ') + chalk.gray('Staged, unstaged and untracked changes; commit stages them first'));
+  console.log(chalk.white('  -- <paths...>          ') + chalk.gray('Limit the diff to pathspecs'));
+  console.log(chalk.dim('     $ commitect analyze -- src/api'));
+  console.log(chalk.white('  --explain              ') + chalk.gray('Show the intent scores and the signals behind them (analyze)'));
+  console.log(chalk.white('  --no-verify            ') + chalk.gray('Skip git hooks (commit, amend, split)'));
+  console.log(chalk.white('  -S, --gpg-sign [keyid] ') + chalk.gray('GPG-sign the commits'));
+  console.log(chalk.white('  --author <author>      ') + chalk.gray('Override the commit author'));
+  console.log(chalk.white('  -s, --signoff          ') + chalk.gray('Add Signed-off-by; config set trailers adds others to every message'));
+  console.log(chalk.dim('     $ commitect commit -S --signoff --no-verify'));
+  console.log('');
+
   // HOW IT WORKS
   console.log(chalk.bold.yellow('⚙️  HOW IT WORKS'));
   console.log('');
-  console.log(chalk.gray('  1. ') + '📖 Reads your git diff (staged + unstaged changes)');
+  console.log(chalk.gray('  1. ') + '📖 Reads your git diff (staged + unstaged, or only staged for commit)');
   console.log(chalk.gray('  2. ') + '🔍 Checks cache for previously analyzed diffs');
   console.log(chalk.gray('  3. ') + '🤖 Sends to AI API if not cached (with auto-retry)');
   console.log(chalk.gray('  4. ') + '💾 Caches result for 30 days');
@@ -110,7 +228,7 @@ export function helpCommand(): void {
   console.log(chalk.green('  ✓ ') + 'Smart caching (instant responses for same diffs)');
   console.log(chalk.green('  ✓ ') + 'Auto-retry on API failures (up to 3 attempts)');
   console.log(chalk.green('  ✓ ') + 'Ignores: node_modules/, dist/, build/, .git/');
-  console.log(chalk.green('  ✓ ') + 'Professional messages (imperative, <70 chars)');
+  console.log(chalk.green('  ✓ ') + 'Professional messages (imperative, <70 char subject, per-file body)');
   console.log(chalk.green('  ✓ ') + 'Works with any git repository');
   console.log('');
 
@@ -120,7 +238,7 @@ export function helpCommand(): void {
   console.log(chalk.cyan('  • ') + 'Use ' + chalk.bold('analyze') + ' when you want to review before committing');
   console.log(chalk.cyan('  • ') + 'Use ' + chalk.bold('copy') + ' when you need custom git flags');
   console.log(chalk.cyan('  • ') + 'Use ' + chalk.bold('commit') + ' for quick, everyday commits');
-  console.log(chalk.cyan('  • ') + 'Use ' + chalk.bold('history') + ' to review all your cached messages');
+  console.log(chalk.cyan('  • ') + 'Use ' + chalk.bold('history') + ' to search and reuse past messages');
   console.log(chalk.cyan('  • ') + 'Run ' + chalk.bold('clear-cache') + ' if suggestions seem outdated');
   console.log(chalk.cyan('  • ') + 'Cache saves time and reduces API costs significantly');
   console.log('');
@@ -130,7 +248,7 @@ export function helpCommand(): void {
   console.log('');
   console.log(chalk.gray('  • Node.js >= 16'));
   console.log(chalk.gray('  • Git repository (initialized)'));
-  console.log(chalk.gray('  • Internet connection (unless result is cached)'));
+  console.log(chalk.gray('  • Internet connection (unless result is cached or --no-remote is used)'));
   console.log('');
 
   // FOOTER
@@ -1,36 +1,41 @@
-import { commitCache } from '../utils/cache.js';
+import { commitCache, CacheEntry } from '../utils/cache.js';
+import { isGitRepository, hasChanges, executeCommit, getHeadCommit, resolveRepoPath } from '../utils/git.js';
+import { formatCommitMessage } from '../services/format.js';
+import { parseSince } from '../utils/time.js';
+import type { MessageFormat } from '../utils/config.js';
+import clipboardy from 'clipboardy';
 import chalk from 'chalk';
 
-export function historyCommand(): void {
-  try {
-    const history = commitCache.getHistory();
-
-    if (history.length === 0) {
-      console.log(chalk.yellow('ℹ No commit history found'));
-      console.log(chalk.gray('  Generate some commits first using commitect analyze/copy/commit'));
-      return;
-    }
+interface HistoryOptions {
+  repo?: string | boolean;
+  intent?: string;
+  since?: string;
+  grep?: string;
+  limit?: string;
+  json?: boolean;
+  csv?: boolean;
+  commit?: boolean;
+}
 
-    console.log('');
-    console.log(chalk.bold.cyan('📜 COMMIT HISTORY'));
-    console.log(chalk.gray('─'.repeat(70)));
-    console.log('');
+export async function historyCommand(
+  action: string | undefined,
+  index: string | undefined,
+  options: HistoryOptions = {}
+): Promise<void> {
+  try {
+    switch (action) {
+      case undefined:
+      case 'list':
+        listHistory(filterHistory(options), options);
+        break;
 
-    history.forEach((entry, index) => {
-      const date = new Date(entry.timestamp);
-      const timeAgo = getTimeAgo(entry.timestamp);
-      
-      // Format: [1] Feature: Add user authentication
-      console.log(chalk.bold.white(`[${index + 1}]`) + ' ' + chalk.green(`${entry.intent}: ${entry.message}`));
-      console.log(chalk.gray(`    📁 ${entry.folder}`));
-      console.log(chalk.gray(`    🕒 ${date.toLocaleString()} (${timeAgo})`));
-      console.log('');
-    });
-
-    console.log(chalk.gray('─'.repeat(70)));
-    console.log(chalk.gray(`Total: ${history.length} cached commit message${history.length !== 1 ? 's' : ''}`));
-    console.log('');
+      case 'use':
+        await useEntry(filterHistory(options), index, options);
+        break;
 
+      default:
+        throw new Error(`Unknown action "${action}". Use list or use <n>`);
+    }
   } catch (error) {
     if (error instanceof Error) {
       console.error(chalk.red('✗  ' + error.message));
@@ -41,6 +46,197 @@ export function historyCommand(): void {
   }
 }
 
+/**
+ * Apply the --repo, --intent, --since, --grep and --limit filters, newest first
+ */
+function filterHistory(options: HistoryOptions): CacheEntry[] {
+  let history = options.repo ? commitCache.getHistoryByRepo(resolveRepoPath(options.repo)) : commitCache.getHistory();
+
+  if (options.intent) {
+    const intent = options.intent.toLowerCase();
+    history = history.filter(entry => entry.intent.toLowerCase() === intent);
+  }
+
+  if (options.since) {
+    const since = parseSince(options.since);
+    history = history.filter(entry => entry.timestamp >= since);
+  }
+
+  if (options.grep) {
+    const pattern = toPattern(options.grep);
+    history = history.filter(entry =>
+      [entry.intent, entry.message, entry.body, entry.committed?.message].some(text => text && pattern.test(text))
+    );
+  }
+
+  if (options.limit) {
+    const limit = Number(options.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid --limit "${options.limit}", expected a positive number`);
+    }
+    history = history.slice(0, limit);
+  }
+
+  return history;
+}
+
+function toPattern(grep: string): RegExp {
+  try {
+    return new RegExp(grep, 'i');
+  } catch {
+    throw new Error(`Invalid --grep pattern "${grep}"`);
+  }
+}
+
+function listHistory(history: CacheEntry[], options: HistoryOptions): void {
+  if (options.json) {
+    console.log(JSON.stringify(history.map((entry, index) => toRecord(entry, index)), null, 2));
+    return;
+  }
+
+  if (options.csv) {
+    console.log(toCsv(history));
+    return;
+  }
+
+  if (history.length === 0) {
+    if (commitCache.getStats().size > 0) {
+      console.log(chalk.yellow('ℹ No history entries match the filters'));
+      return;
+    }
+    console.log(chalk.yellow('ℹ No commit history found'));
+    console.log(chalk.gray('  Generate some commits first using commitect analyze/copy/commit'));
+    return;
+  }
+
+  console.log('');
+  console.log(chalk.bold.cyan('📜 COMMIT HISTORY'));
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log('');
+
+  history.forEach((entry, index) => {
+    const date = new Date(entry.timestamp);
+    const timeAgo = getTimeAgo(entry.timestamp);
+
+    // Format: [1] Feature: Add user authentication
+    console.log(chalk.bold.white(`[${index + 1}]`) + ' ' + chalk.green(`${entry.intent}: ${entry.message}`));
+    if (entry.body) {
+      entry.body.split('\n').forEach(line => console.log(chalk.white(`    ${line}`)));
+    }
+    console.log(chalk.gray(`    📁 ${entry.folder || 'unknown repository'}`));
+    console.log(chalk.gray(`    🕒 ${date.toLocaleString()} (${timeAgo})`));
+
+    if (entry.committed) {
+      const [subject] = entry.committed.message.split('\n');
+      console.log(chalk.gray(`    ✓  Committed ${entry.committed.commit.slice(0, 7)}: `) + chalk.white(subject));
+    } else {
+      console.log(chalk.dim('    ○  Not committed'));
+    }
+    console.log('');
+  });
+
+  const committed = history.filter(entry => entry.committed).length;
+
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log(chalk.gray(`Total: ${history.length} cached commit message${history.length !== 1 ? 's' : ''}, ${committed} committed`));
+  console.log(chalk.gray('Reuse one with commitect history use <n> (pass the same filters)'));
+  console.log('');
+}
+
+/**
+ * Copy a past message to the clipboard, or commit the staged changes with it
+ */
+async function useEntry(history: CacheEntry[], index: string | undefined, options: HistoryOptions): Promise<void> {
+  const position = Number(index);
+
+  if (!index || !Number.isInteger(position) || position < 1 || position > history.length) {
+    throw new Error(index
+      ? `No history entry [${index}], run commitect history to see the numbers`
+      : 'Pass the number of the entry to use, e.g. commitect history use 1');
+  }
+
+  const entry = history[position - 1];
+  const message = finalMessage(entry);
+
+  if (!options.commit) {
+    await clipboardy.write(message);
+    console.log(chalk.green('✓  Commit message copied to clipboard: ') + message.split('\n')[0]);
+    return;
+  }
+
+  if (!isGitRepository()) {
+    throw new Error('Not a git repository');
+  }
+
+  if (!hasChanges({ mode: 'staged' })) {
+    console.log(chalk.yellow('⚠  No changes to commit'));
+    console.log(chalk.gray('  Stage your changes with git add first'));
+    process.exit(0);
+  }
+
+  console.log(chalk.blue('🖫  Committing changes...'));
+  executeCommit(message);
+
+  const commit = getHeadCommit();
+  if (commit) {
+    commitCache.markCommitted(entry.hash, { commit, message, timestamp: Date.now() });
+  }
+
+  console.log(chalk.green('✓  Committed: ') + message);
+}
+
+/**
+ * The message as it was committed, or the suggestion in the format it was generated for
+ */
+function finalMessage(entry: CacheEntry): string {
+  return entry.committed?.message ?? formatCommitMessage(entry, { format: entry.format as MessageFormat });
+}
+
+function toRecord(entry: CacheEntry, index: number) {
+  return {
+    index: index + 1,
+    intent: entry.intent,
+    message: entry.message,
+    ...(entry.body ? { body: entry.body } : {}),
+    ...(entry.breaking ? { breaking: true } : {}),
+    repo: entry.repo,
+    provider: entry.provider,
+    ...(entry.model ? { model: entry.model } : {}),
+    format: entry.format,
+    createdAt: new Date(entry.timestamp).toISOString(),
+    committed: entry.committed
+      ? {
+          commit: entry.committed.commit,
+          message: entry.committed.message,
+          committedAt: new Date(entry.committed.timestamp).toISOString()
+        }
+      : null
+  };
+}
+
+function toCsv(history: CacheEntry[]): string {
+  const header = ['index', 'created_at', 'repo', 'intent', 'message', 'body', 'provider', 'format', 'committed', 'commit', 'final_message'];
+  const rows = history.map((entry, index) => [
+    String(index + 1),
+    new Date(entry.timestamp).toISOString(),
+    entry.repo,
+    entry.intent,
+    entry.message,
+    entry.body ?? '',
+    entry.provider,
+    entry.format,
+    entry.committed ? 'yes' : 'no',
+    entry.committed?.commit ?? '',
+    entry.committed?.message ?? ''
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
 function getTimeAgo(timestamp: number): string {
   const now = Date.now();
   const diff = now - timestamp;
@@ -59,4 +255,4 @@ function getTimeAgo(timestamp: number): string {
   } else {
     return 'just now';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { isGitRepository, getGitDiff, getDiffStats } from '../utils/git.js';
+import { parseDiff } from '../utils/diff.js';
+import { installHook, uninstallHook, getHookStatus, HookName, HOOK_NAMES } from '../utils/hooks.js';
+import { generateCommitMessage } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff, summarizeDiff } from '../services/heuristics.js';
+import chalk from 'chalk';
+
+// Installed when no hook is named; commit-msg (lint) is opt-in
+const DEFAULT_HOOKS: HookName[] = ['prepare-commit-msg'];
+
+export async function hookCommand(action: string, args: string[] = []): Promise<void> {
+  // Called by git from inside the hook: must never block the commit
+  if (action === 'run') {
+    await runHook(args);
+    return;
+  }
+
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    const named = parseHookNames(args);
+
+    switch (action) {
+      case 'install':
+        (named ?? DEFAULT_HOOKS).forEach(name => {
+          const state = installHook(name);
+          const note = state === 'chained' ? ' (existing hook kept and chained)' : '';
+          console.log(chalk.green(`✓  Installed ${name} hook${note}`));
+        });
+        break;
+
+      case 'uninstall':
+        (named ?? HOOK_NAMES).forEach(name => {
+          if (uninstallHook(name)) {
+            console.log(chalk.green(`✓  Removed ${name} hook`));
+          } else {
+            console.log(chalk.yellow(`ℹ  ${name} hook is not installed`));
+          }
+        });
+        break;
+
+      case 'status':
+        (named ?? HOOK_NAMES).forEach(name => {
+          const status = getHookStatus(name);
+          const color = status.state === 'not installed' ? chalk.yellow : chalk.green;
+          console.log(chalk.bold.white(name) + '  ' + color(status.state));
+          console.log(chalk.gray(`    📄 ${status.path}`));
+          if (status.hasOtherHook) {
+            console.log(chalk.gray('    🔗 Other hook commands run alongside commitect'));
+          }
+        });
+        break;
+
+      default:
+        throw new Error(`Unknown action "${action}". Use install, uninstall or status`);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  Failed to update git hooks'));
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * @returns The hooks named on the command line, or null when none were given
+ */
+function parseHookNames(args: string[]): HookName[] | null {
+  if (args.length === 0) {
+    return null;
+  }
+
+  return args.map(arg => {
+    if (!HOOK_NAMES.includes(arg as HookName)) {
+      throw new Error(`Unknown hook "${arg}". Available hooks: ${HOOK_NAMES.join(', ')}`);
+    }
+    return arg as HookName;
+  });
+}
+
+/**
+ * prepare-commit-msg <file> [source] [sha]
+ * Only plain "git commit" runs have no source. Messages from -m/-F ("message"), templates,
+ * merges, squashes and amends ("commit") are left untouched.
+ */
+async function runHook(args: string[]): Promise<void> {
+  const [file, source] = args;
+
+  if (!file || source) {
+    return;
+  }
+
+  try {
+    const diff = getGitDiff({ mode: 'staged' });
+
+    if (!diff.trim()) {
+      return;
+    }
+
+    const suggestion = await generateCommitMessage(diff, {
+      summary: summarizeDiff(parseDiff(diff, getDiffStats({ mode: 'staged' })))
+    });
+    const message = formatCommitMessage(suggestion, { files: extractFilesFromDiff(diff) });
+
+    // Keep git's own comment block below the suggestion
+    const existing = readFileSync(file, 'utf-8');
+    writeFileSync(file, `${message}\n${existing.startsWith('\n') ? '' : '\n'}${existing}`, 'utf-8');
+  } catch {
+    // A failed suggestion must never stop the commit
+  }
+}
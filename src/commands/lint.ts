@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import { isGitRepository, getCommitMessages } from '../utils/git.js';
+import { getConfig, MessageFormat } from '../utils/config.js';
+import { lintMessage, cleanMessage, LintResult } from '../services/lint.js';
+import { resolveFormat } from '../services/format.js';
+import { getStyleProfile } from '../services/style.js';
+import chalk from 'chalk';
+
+interface LintOptions {
+  file?: string;
+  range?: string;
+  format?: MessageFormat;
+  json?: boolean;
+}
+
+interface CheckedMessage extends LintResult {
+  commit?: string;
+}
+
+export function lintCommand(message: string | undefined, options: LintOptions = {}): void {
+  try {
+    const sources = [message !== undefined, !!options.file, !!options.range].filter(Boolean).length;
+
+    if (sources !== 1) {
+      throw new Error('Pass exactly one of: a message, --file <path> or --range <range>');
+    }
+
+    if (options.range && !isGitRepository()) {
+      throw new Error('Not a git repository');
+    }
+
+    const config = getConfig();
+    const rules = {
+      format: resolveFormat(options.format, isGitRepository() && config.style ? getStyleProfile() : null),
+      maxSubjectLength: config.maxSubjectLength,
+      forbiddenWords: config.forbiddenWords
+    };
+
+    let checked: CheckedMessage[];
+
+    if (options.range) {
+      checked = getCommitMessages(options.range).map(({ hash, message }) => ({
+        commit: hash,
+        ...lintMessage(message, rules)
+      }));
+    } else if (options.file) {
+      checked = [lintMessage(cleanMessage(readMessageFile(options.file)), rules)];
+    } else {
+      checked = [lintMessage(message ?? '', rules)];
+    }
+
+    const failed = checked.filter(c => c.violations.length > 0);
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        valid: failed.length === 0,
+        format: rules.format,
+        results: checked.map(c => ({ ...c, valid: c.violations.length === 0 }))
+      }, null, 2));
+    } else {
+      printResults(checked, rules.format, !!options.range);
+    }
+
+    if (failed.length > 0) {
+      process.exit(1);
+    }
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  Failed to lint commit messages'));
+    }
+    process.exit(1);
+  }
+}
+
+function readMessageFile(path: string): string {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    throw new Error(`Cannot read ${path}`);
+  }
+}
+
+function printResults(checked: CheckedMessage[], format: MessageFormat, isRange: boolean): void {
+  if (checked.length === 0) {
+    console.log(chalk.yellow('ℹ No commits in range'));
+    return;
+  }
+
+  checked.forEach(({ commit, subject, violations }) => {
+    const label = commit ? chalk.gray(commit.slice(0, 7)) + '  ' : '';
+    const mark = violations.length === 0 ? chalk.green('✓ ') : chalk.red('✗ ');
+
+    if (isRange || violations.length > 0) {
+      console.log(`${mark} ${label}${subject || chalk.dim('(empty)')}`);
+    }
+
+    violations.forEach(v => {
+      console.log(chalk.gray(`     ${v.rule.padEnd(16)}`) + chalk.white(v.message));
+    });
+  });
+
+  const failed = checked.filter(c => c.violations.length > 0).length;
+  const total = checked.length;
+
+  if (failed === 0) {
+    console.log(chalk.green(`✓  ${total === 1 ? 'Commit message follows' : `All ${total} commit messages follow`} the ${format} format`));
+  } else {
+    console.log(chalk.red(`✗  ${failed} of ${total} commit message${total !== 1 ? 's' : ''} failed`));
+  }
+}
@@ -0,0 +1,93 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  isGitRepository,
+  getDefaultBranch,
+  getMergeBase,
+  getRangeDiff,
+  getCommitMessages,
+  shellQuote
+} from '../utils/git.js';
+import { generateCommitMessage } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff } from '../services/heuristics.js';
+import { buildPullRequest } from '../services/pr.js';
+import type { MessageFormat } from '../utils/config.js';
+import clipboardy from 'clipboardy';
+import chalk from 'chalk';
+
+interface PrOptions {
+  base?: string;
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  copy?: boolean;
+  output?: string;
+}
+
+export async function prCommand(options: PrOptions = {}): Promise<void> {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    const base = options.base ?? getDefaultBranch();
+    if (!base) {
+      throw new Error('Cannot tell the base branch, pass --base <branch>');
+    }
+
+    const mergeBase = getMergeBase(base, 'HEAD');
+    const commits = getCommitMessages(`${mergeBase}..HEAD`);
+    const diff = getRangeDiff(mergeBase, 'HEAD');
+
+    if (commits.length === 0 || !diff.trim()) {
+      console.log(chalk.yellow(`⚠  No changes between ${base} and HEAD`));
+      process.exit(0);
+    }
+
+    // Generate the summary through the same providers, redaction and fallback as commit messages
+    console.log(chalk.blue(`🔎︎ Describing ${commits.length} commit${commits.length !== 1 ? 's' : ''} since ${base}...`));
+    // It is not a commit suggestion, so it stays out of the cache and the history
+    const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format, skipCache: true, record: false });
+
+    // A single commit already has a reviewed subject, like GitHub's default title
+    const title = commits.length === 1
+      ? commits[0].message.split('\n')[0]
+      : formatCommitMessage(suggestion, { format: options.format, files: extractFilesFromDiff(diff), body: false, trailers: false });
+
+    const pr = buildPullRequest({ base, title, suggestion, commits, diff });
+
+    if (options.output) {
+      const path = resolve(options.output);
+      writeFileSync(path, pr.body, 'utf-8');
+      console.log(chalk.green(`✓  Description written to ${path}`));
+      console.log(chalk.gray('  Title: ') + pr.title);
+      console.log(chalk.gray('  ' + ['gh', 'pr', 'create', '--base', base.replace(/^origin\//, ''), '--title', pr.title, '--body-file', options.output].map(shellQuote).join(' ')));
+    }
+
+    // Both can be asked for at once, e.g. a file for gh and the clipboard for the browser
+    if (options.copy) {
+      await clipboardy.write(`${pr.title}\n\n${pr.body}`);
+      console.log(chalk.green('✓  Pull request title and description copied to clipboard'));
+    }
+
+    if (options.output || options.copy) {
+      return;
+    }
+
+    console.log('');
+    console.log(chalk.bold(pr.title));
+    console.log('');
+    console.log(pr.body);
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  An unexpected error occurred'));
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  isGitRepository,
+  getCommitMessages,
+  getCommitDiff,
+  getPublishedCommits,
+  keepTrailers,
+  rewordCommits
+} from '../utils/git.js';
+import { generateCommitMessage } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { extractFilesFromDiff } from '../services/heuristics.js';
+import { isInteractive, choose, editInEditor } from '../utils/prompt.js';
+import type { MessageFormat } from '../utils/config.js';
+import chalk from 'chalk';
+
+interface RewordOptions {
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  body?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+interface Reword {
+  hash: string;
+  current: string;
+  proposed: string;
+}
+
+// Width of the old subject column in the side-by-side view
+const OLD_COLUMN = 32;
+
+export async function rewordCommand(range: string, options: RewordOptions = {}): Promise<void> {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    const commits = getCommitMessages(range);
+
+    if (commits.length === 0) {
+      console.log(chalk.yellow('ℹ No commits in range'));
+      return;
+    }
+
+    const published = getPublishedCommits(commits.map(c => c.hash));
+    if (published.length > 0 && !options.force) {
+      const shown = published.slice(0, 3).map(hash => hash.slice(0, 7)).join(', ');
+      throw new Error(
+        `${published.length} commit${published.length !== 1 ? 's are' : ' is'} already on the upstream branch (${shown}${published.length > 3 ? ', ...' : ''}). ` +
+        `Rewording ${published.length !== 1 ? 'them' : 'it'} needs a force push. Use --force to reword anyway`
+      );
+    }
+
+    // Each commit is described from its own diff
+    console.log(chalk.blue(`🔎︎ Generating ${commits.length} commit message${commits.length !== 1 ? 's' : ''}...`));
+    const rewords: Reword[] = [];
+
+    for (const commit of commits) {
+      const diff = getCommitDiff(commit.hash);
+      if (!diff.trim()) {
+        continue;
+      }
+
+      const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format });
+      const proposed = keepTrailers(formatCommitMessage(suggestion, {
+        format: options.format,
+        files: extractFilesFromDiff(diff),
+        body: options.body
+      }), commit.message);
+
+      if (proposed.trim() !== commit.message.trim()) {
+        rewords.push({ hash: commit.hash, current: commit.message, proposed });
+      }
+    }
+
+    if (rewords.length === 0) {
+      console.log(chalk.green('✓  Every message already matches its suggestion'));
+      return;
+    }
+
+    printComparison(rewords);
+
+    if (options.dryRun) {
+      console.log(chalk.gray('Dry run, nothing was rewritten'));
+      return;
+    }
+
+    let chosen = rewords;
+
+    if (!options.yes) {
+      if (!isInteractive()) {
+        console.log(chalk.yellow('⚠  Nothing rewritten, run with --yes to apply these messages'));
+        return;
+      }
+      chosen = await chooseRewords(rewords);
+    }
+
+    if (chosen.length === 0) {
+      console.log(chalk.yellow('⚠  Nothing rewritten'));
+      return;
+    }
+
+    const head = rewordCommits(new Map(chosen.map(r => [r.hash, r.proposed])));
+
+    console.log(chalk.green(`✓  Reworded ${chosen.length} commit${chosen.length !== 1 ? 's' : ''}, HEAD is now ${head.slice(0, 7)}`));
+    if (published.length > 0) {
+      console.log(chalk.yellow('  ⚠  Published commits were rewritten, push with --force-with-lease'));
+    }
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  An unexpected error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Show each commit's current subject next to the proposed one
+ */
+function printComparison(rewords: Reword[]): void {
+  console.log('');
+  console.log(chalk.bold.cyan('✎  REWORD PLAN'));
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log(chalk.gray(`           ${'Current'.padEnd(OLD_COLUMN)}    Proposed`));
+
+  rewords.forEach(({ hash, current, proposed }) => {
+    const [oldSubject] = current.split('\n');
+    const [newSubject] = proposed.split('\n');
+    const shown = oldSubject.length > OLD_COLUMN ? oldSubject.slice(0, OLD_COLUMN - 1) + '…' : oldSubject;
+
+    console.log(`  ${chalk.gray(hash.slice(0, 7))}  ${chalk.white(shown.padEnd(OLD_COLUMN))} ${chalk.gray('→')}  ${chalk.green(newSubject)}`);
+  });
+
+  console.log(chalk.gray('─'.repeat(70)));
+}
+
+/**
+ * Ask about each commit: take the proposed message, edit it, or keep the current one
+ */
+async function chooseRewords(rewords: Reword[]): Promise<Reword[]> {
+  const chosen: Reword[] = [];
+
+  for (const reword of rewords) {
+    console.log('');
+    console.log(chalk.gray(reword.hash.slice(0, 7)) + '  ' + chalk.white(reword.current.split('\n')[0]));
+    console.log(chalk.green('  ' + reword.proposed.split('\n').join('\n  ')));
+
+    const choice = await choose('Reword this commit?', [
+      { key: 'y', label: 'use new message' },
+      { key: 'e', label: 'edit' },
+      { key: 'n', label: 'keep current' },
+      { key: 'q', label: 'stop asking' }
+    ]);
+
+    if (choice === 'q') {
+      break;
+    }
+
+    if (choice === 'y') {
+      chosen.push(reword);
+    } else if (choice === 'e') {
+      const edited = editInEditor(reword.proposed);
+      if (edited) {
+        chosen.push({ ...reword, proposed: edited });
+      }
+    }
+  }
+
+  return chosen;
+}
@@ -0,0 +1,172 @@
+import {
+  isGitRepository,
+  getGitDiff,
+  getDiffStats,
+  getUntrackedFiles,
+  hasChanges,
+  executeCommit,
+  buildCommitCommand,
+  shellQuote,
+  stageChanges,
+  unstageAll,
+  unstageChanges,
+  saveIndex,
+  restoreIndex,
+  toRootPathspecs,
+  CommitFlags
+} from '../utils/git.js';
+import { generateCommitMessage, recordCommit } from '../services/llm.js';
+import { formatCommitMessage } from '../services/format.js';
+import { groupChanges, groupDiff, groupPaths } from '../services/split.js';
+import { isInteractive, choose } from '../utils/prompt.js';
+import type { MessageFormat } from '../utils/config.js';
+import chalk from 'chalk';
+
+interface SplitOptions extends Omit<CommitFlags, 'amend'> {
+  provider?: string;
+  remote?: boolean;
+  format?: MessageFormat;
+  body?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+}
+
+interface PlannedCommit {
+  label: string;
+  paths: string[];
+  diff: string;
+  message: string;
+}
+
+export async function splitCommand(options: SplitOptions = {}): Promise<void> {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    // Check for changes
+    if (!hasChanges()) {
+      console.log(chalk.yellow('⚠  No changes to split'));
+      process.exit(0);
+    }
+
+    const groups = groupChanges(getGitDiff());
+
+    if (groups.length === 0) {
+      console.log(chalk.yellow('⚠  No changes to split'));
+      process.exit(0);
+    }
+
+    // Generate one message per group
+    console.log(chalk.blue(`🔎︎ Generating ${groups.length} commit message${groups.length !== 1 ? 's' : ''}...`));
+    const plan: PlannedCommit[] = [];
+
+    for (const group of groups) {
+      const diff = groupDiff(group);
+      const suggestion = await generateCommitMessage(diff, { provider: options.provider, remote: options.remote, format: options.format });
+
+      plan.push({
+        label: group.label,
+        paths: groupPaths(group),
+        diff,
+        message: formatCommitMessage(suggestion, {
+          format: options.format,
+          files: group.files.map(f => f.path),
+          body: options.body
+        })
+      });
+    }
+
+    printPlan(plan);
+
+    // Ignored files are in no group, so they stay uncommitted and unstaged
+    const planned = new Set(plan.flatMap(commit => commit.paths));
+    const excluded = [
+      ...getDiffStats().flatMap(stat => (stat.oldPath ? [stat.oldPath, stat.path] : [stat.path])),
+      ...getUntrackedFiles()
+    ].filter(path => !planned.has(path));
+    if (excluded.length > 0) {
+      console.log(chalk.yellow(`⚠  Left out of the plan, ignored by commitect: ${[...new Set(excluded)].join(', ')}`));
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.gray('Dry run, would execute:'));
+      console.log('git reset -q');
+      plan.forEach(commit => {
+        console.log(['git', 'add', '-A', '--', ...toRootPathspecs(commit.paths)].map(shellQuote).join(' '));
+        console.log(buildCommitCommand(commit.message, options));
+      });
+      return;
+    }
+
+    if (!options.yes) {
+      if (!isInteractive()) {
+        console.log(chalk.yellow('⚠  Nothing committed, run with --yes to apply this plan'));
+        return;
+      }
+
+      const choice = await choose(`Create these ${plan.length} commits?`, [
+        { key: 'y', label: 'commit all' },
+        { key: 'n', label: 'abort' }
+      ]);
+
+      if (choice !== 'y') {
+        console.log(chalk.yellow('⚠  Split aborted'));
+        return;
+      }
+    }
+
+    // Start from an empty index so each commit only contains its own group, and put it back if one fails
+    const saved = saveIndex();
+    unstageAll();
+
+    for (const [index, commit] of plan.entries()) {
+      try {
+        stageChanges(toRootPathspecs(commit.paths));
+        executeCommit(commit.message, options);
+        recordCommit(commit.diff, commit.message);
+      } catch (error) {
+        if (saved) {
+          restoreIndex(saved);
+          // The groups committed so far match the new HEAD, so none of their files are staged
+          const committed = plan.slice(0, index).flatMap(done => done.paths);
+          if (committed.length > 0) {
+            unstageChanges(toRootPathspecs(committed));
+          }
+        }
+        const remaining = plan.length - index;
+        throw new Error(`Commit ${index + 1} of ${plan.length} failed, ${remaining} group${remaining !== 1 ? 's' : ''} left uncommitted`);
+      }
+    }
+
+    console.log(chalk.green(`✓  Created ${plan.length} commit${plan.length !== 1 ? 's' : ''}`));
+
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  An unexpected error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+function printPlan(plan: PlannedCommit[]): void {
+  console.log('');
+  console.log(chalk.bold.cyan('✂  COMMIT PLAN'));
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log('');
+
+  plan.forEach((commit, index) => {
+    const [subject, ...body] = commit.message.split('\n');
+
+    console.log(chalk.bold.white(`[${index + 1}]`) + ' ' + chalk.green(subject) + chalk.gray(`  (${commit.label})`));
+    body.filter(Boolean).forEach(line => console.log(chalk.white(`    ${line}`)));
+    commit.paths.forEach(path => console.log(chalk.gray(`    📄 ${path}`)));
+    console.log('');
+  });
+
+  console.log(chalk.gray('─'.repeat(70)));
+}
@@ -0,0 +1,79 @@
+import { isGitRepository } from '../utils/git.js';
+import { getConfig } from '../utils/config.js';
+import { getStyleProfile, StyleProfile } from '../services/style.js';
+import { formatCommitMessage } from '../services/format.js';
+import chalk from 'chalk';
+
+export function styleCommand(action: string): void {
+  try {
+    // Validate git repository
+    if (!isGitRepository()) {
+      console.error(chalk.red('✗  Not a git repository'));
+      process.exit(1);
+    }
+
+    switch (action) {
+      case 'show':
+        showProfile(getStyleProfile());
+        break;
+
+      case 'refresh':
+        showProfile(getStyleProfile(true));
+        break;
+
+      default:
+        throw new Error(`Unknown action "${action}". Use show or refresh`);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red('✗  ' + error.message));
+    } else {
+      console.error(chalk.red('✗  Failed to read the commit style'));
+    }
+    process.exit(1);
+  }
+}
+
+function showProfile(profile: StyleProfile | null): void {
+  if (!profile) {
+    console.log(chalk.yellow('ℹ Not enough commit history to learn a style'));
+    console.log(chalk.gray('  Messages use the configured format until the repository has a few commits'));
+    return;
+  }
+
+  const row = (label: string, value: string): void =>
+    console.log(chalk.white(`  ${label.padEnd(16)}`) + value);
+
+  console.log('');
+  console.log(chalk.bold.cyan('🖋  COMMIT STYLE'));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  row('Format', profile.format);
+  row('Casing', profile.capitalized ? 'Capitalized' : 'lowercase');
+  row('Mood', profile.mood);
+  row('Trailing period', profile.trailingPeriod ? 'yes' : 'no');
+  row('Ticket prefix', profile.ticket
+    ? `${profile.ticket.format.trim()}${profile.ticket.keys.length > 0 ? chalk.gray(` (${profile.ticket.keys.join(', ')})`) : ''}`
+    : chalk.dim('none'));
+  row('Emoji', profile.emoji ?? chalk.dim('none'));
+  row('Scopes', profile.scopes.length > 0
+    ? profile.scopes.map(s => `${s.name}${chalk.gray(` ×${s.count}`)}`).join(', ') +
+      chalk.gray(` (${Math.round(profile.scopeRate * 100)}% of commits)`)
+    : chalk.dim('none'));
+  row('Length', `${profile.medianLength} typical, ${profile.longLength} long`);
+
+  console.log(chalk.gray('─'.repeat(70)));
+
+  const example = formatCommitMessage(
+    { intent: 'Feature', message: 'add login endpoint' },
+    { files: ['src/api/auth.ts'], body: false, style: true, trailers: false }
+  );
+  console.log(chalk.gray('  Example: ') + chalk.green(example));
+  console.log(chalk.gray(`  Learned from the last ${profile.sampleSize} commits`));
+
+  if (!getConfig().style) {
+    console.log(chalk.yellow('  ⚠  Style is disabled, run commitect config set style true to apply it'));
+  }
+
+  console.log('');
+}
@@ -1,11 +1,21 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { analyzeCommand } from './commands/analyze.js';
 import { copyCommand } from './commands/copy.js';
 import { commitCommand } from './commands/commit.js';
 import { clearCacheCommand } from './commands/clear-cache.js';
 import { historyCommand } from './commands/history.js';
 import { helpCommand } from './commands/help.js';
+import { configCommand } from './commands/config.js';
+import { hookCommand } from './commands/hook.js';
+import { styleCommand } from './commands/style.js';
+import { lintCommand } from './commands/lint.js';
+import { splitCommand } from './commands/split.js';
+import { changelogCommand } from './commands/changelog.js';
+import { bumpCommand } from './commands/bump.js';
+import { prCommand } from './commands/pr.js';
+import { amendCommand } from './commands/amend.js';
+import { rewordCommand } from './commands/reword.js';
 
 const program = new Command();
 
@@ -17,28 +27,194 @@ program
 program
   .command('analyze')
   .description('Analyze changes and suggest a commit message')
+  .argument('[paths...]', 'Limit the diff to these pathspecs')
+  .option('--staged', 'Only staged changes')
+  .option('--unstaged', 'Only unstaged changes')
+  .option('--all', 'Staged and unstaged changes (default)')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Message format').choices(['intent', 'conventional', 'plain']))
+  .option('--breaking', 'Mark the change as breaking (conventional format)')
+  .option('--body', 'Include the commit body')
+  .option('--no-body', 'Only generate the subject line')
+  .option('--explain', 'Show how each signal in the diff scored towards the intent')
   .action(analyzeCommand);
 
 program
   .command('copy')
   .description('Generate commit message and copy to clipboard')
+  .argument('[paths...]', 'Limit the diff to these pathspecs')
+  .option('--staged', 'Only staged changes')
+  .option('--unstaged', 'Only unstaged changes')
+  .option('--all', 'Staged and unstaged changes (default)')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Message format').choices(['intent', 'conventional', 'plain']))
+  .option('--breaking', 'Mark the change as breaking (conventional format)')
+  .option('--body', 'Include the commit body')
+  .option('--no-body', 'Only generate the subject line')
   .action(copyCommand);
 
 program
   .command('commit')
   .description('Generate and execute git commit')
+  .argument('[paths...]', 'Limit the commit to these pathspecs')
+  .option('--staged', 'Commit what is already staged (default)')
+  .option('--all', 'Stage all changes, including untracked files, then commit')
+  .option('-y, --yes', 'Commit without asking for confirmation')
+  .option('--dry-run', 'Print the git command instead of running it')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Message format').choices(['intent', 'conventional', 'plain']))
+  .option('--breaking', 'Mark the change as breaking (conventional format)')
+  .option('--body', 'Include the commit body')
+  .option('--no-body', 'Only generate the subject line')
+  .option('--amend', 'Replace HEAD, describing it together with the staged changes')
+  .option('--no-verify', 'Skip the pre-commit and commit-msg hooks')
+  .option('-S, --gpg-sign [keyid]', 'GPG-sign the commit')
+  .option('--author <author>', 'Override the commit author')
+  .option('-s, --signoff', 'Add a Signed-off-by trailer')
   .action(commitCommand);
 
+program
+  .command('amend')
+  .description('Write a new message for HEAD from its own diff')
+  .option('-y, --yes', 'Amend without asking for confirmation')
+  .option('--dry-run', 'Print the new message instead of amending')
+  .option('--force', 'Amend even if HEAD is already on the upstream branch')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Message format').choices(['intent', 'conventional', 'plain']))
+  .option('--body', 'Include the commit body')
+  .option('--no-body', 'Only generate the subject line')
+  .option('--no-verify', 'Skip the pre-commit and commit-msg hooks')
+  .option('-S, --gpg-sign [keyid]', 'GPG-sign the commit')
+  .option('--author <author>', 'Override the commit author')
+  .option('-s, --signoff', 'Add a Signed-off-by trailer')
+  .action(amendCommand);
+
+program
+  .command('reword')
+  .description('Write new messages for a range of commits and rewrite them')
+  .argument('<range>', 'Commits to reword, e.g. origin/main..HEAD or HEAD~3..')
+  .option('-y, --yes', 'Rewrite every commit without asking')
+  .option('--dry-run', 'Show the old and new messages without rewriting')
+  .option('--force', 'Reword even commits that are already on the upstream branch')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Message format').choices(['intent', 'conventional', 'plain']))
+  .option('--body', 'Include the commit body')
+  .option('--no-body', 'Only generate the subject line')
+  .action(rewordCommand);
+
+program
+  .command('split')
+  .description('Split all changes into several logical commits')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Message format').choices(['intent', 'conventional', 'plain']))
+  .option('--body', 'Include the commit body')
+  .option('--no-body', 'Only generate the subject line')
+  .option('-y, --yes', 'Commit the plan without asking for confirmation')
+  .option('--dry-run', 'Print the plan and git commands without running them')
+  .option('--no-verify', 'Skip the pre-commit and commit-msg hooks')
+  .option('-S, --gpg-sign [keyid]', 'GPG-sign the commit')
+  .option('--author <author>', 'Override the commit author')
+  .option('-s, --signoff', 'Add a Signed-off-by trailer')
+  .action(splitCommand);
+
+program
+  .command('pr')
+  .description('Generate a pull request title and description for the current branch')
+  .option('--base <branch>', 'Branch the pull request targets (default: origin/HEAD, main or master)')
+  .option('-p, --provider <name>', 'Message provider (detector, openai, ollama, heuristic)')
+  .option('--remote', 'Allow remote providers')
+  .option('--no-remote', 'Never send the diff over the network, use the offline engine')
+  .addOption(new Option('-f, --format <format>', 'Title format').choices(['intent', 'conventional', 'plain']))
+  .option('--copy', 'Copy the title and description to the clipboard')
+  .option('-o, --output <file>', 'Write the description to a file, for gh pr create --body-file')
+  .action(prCommand);
+
 program
   .command('history')
-  .description('Show cached commit message history')
+  .description('Search cached commit messages, or reuse one')
+  .argument('[action]', 'list (default) | use')
+  .argument('[n]', 'Entry number for use, as shown by the list with the same filters')
+  .option('--repo [path]', 'Only entries for this repository (default: the current one)')
+  .option('--intent <intent>', 'Only entries with this intent, e.g. "Bug Fix"')
+  .option('--since <when>', 'Only entries newer than a duration (7d, 12h) or a date (2026-01-31)')
+  .option('--grep <pattern>', 'Only entries whose message matches this pattern (case-insensitive)')
+  .option('--limit <n>', 'Show at most this many entries')
+  .option('--json', 'Export the entries as JSON')
+  .option('--csv', 'Export the entries as CSV')
+  .option('--commit', 'With use, commit the staged changes with the message instead of copying it')
   .action(historyCommand);
 
+program
+  .command('changelog')
+  .description('Generate a changelog from the commit history, grouped by intent')
+  .option('--from <ref>', 'Start after this tag or commit (default: the latest tag)')
+  .option('--to <ref>', 'End at this ref (default: HEAD)')
+  .option('--release <version>', 'Heading for the new section (default: Unreleased)')
+  .option('--json', 'Print the changelog as JSON')
+  .option('--write [file]', 'Prepend the section to CHANGELOG.md (or the given file)')
+  .action(changelogCommand);
+
+program
+  .command('bump')
+  .description('Recommend the next semantic version from the commits since the last tag')
+  .option('--from <ref>', 'Start after this tag or commit (default: the latest tag)')
+  .option('--write', 'Set the new version in package.json')
+  .option('--tag', 'Create the version tag (after committing package.json with --write)')
+  .option('--dry-run', 'Explain every commit and print what --write and --tag would do')
+  .option('--json', 'Print the recommendation as JSON')
+  .action(bumpCommand);
+
 program
   .command('clear-cache')
   .description('Clear the commit message cache')
+  .option('--repo [path]', 'Only entries for this repository (default: the current one)')
+  .option('--older-than <duration>', 'Only entries older than this, e.g. 7d, 12h or 2w')
   .action(clearCacheCommand);
 
+program
+  .command('config')
+  .description('Get, set, list or unset configuration values')
+  .argument('<action>', 'get | set | list | unset')
+  .argument('[key]', 'Config key')
+  .argument('[value]', 'Value to set')
+  .option('-l, --local', 'Write to the repository .commitectrc instead of ~/.commitect/config.json')
+  .action(configCommand);
+
+program
+  .command('hook')
+  .description('Install, uninstall or check the prepare-commit-msg and commit-msg git hooks')
+  .argument('<action>', 'install | uninstall | status')
+  .argument('[args...]', 'Hook names (default: prepare-commit-msg)')
+  .action(hookCommand);
+
+program
+  .command('lint')
+  .description('Check commit messages against the configured format and rules')
+  .argument('[message]', 'The message to check')
+  .option('--file <path>', 'Read the message from a file (commit-msg hook)')
+  .option('--range <range>', 'Check every commit in a range, e.g. origin/main..HEAD')
+  .addOption(new Option('-f, --format <format>', 'Format to check against').choices(['intent', 'conventional', 'plain']))
+  .option('--json', 'Print the results as JSON')
+  .action(lintCommand);
+
+program
+  .command('style')
+  .description('Show the commit style learned from git log')
+  .argument('<action>', 'show | refresh')
+  .action(styleCommand);
+
 program
   .command('help')
   .description('Show detailed help and examples')
@@ -0,0 +1,32 @@
+import type { LanguageAnalyzer } from './types.js';
+
+const MODIFIERS = '(?:public|private|protected|internal)(?:\\s+(?:static|async|virtual|override|sealed|abstract|partial|new|extern|unsafe))*';
+
+export const csharpAnalyzer: LanguageAnalyzer = {
+  name: 'csharp',
+  extensions: ['.cs'],
+  functionPatterns: [
+    new RegExp(`^\\s*${MODIFIERS}\\s+[\\w<>\\[\\],.?]+(?:\\s*<[^>]*>)?\\s+(?<name>\\w+)\\s*(?:<[^>]*>)?\\s*\\(`)
+  ],
+  typePatterns: [
+    /^\s*(?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly)\s+)*(?:class|interface|struct|record|enum)\s+(?<name>\w+)/
+  ],
+  routePatterns: [
+    // ASP.NET attributes: [HttpGet("users/{id}")], [Route("api/users")]
+    /\[\s*Http(?<method>Get|Post|Put|Delete|Patch)\s*(?:\(\s*"(?<name>[^"]*)"\s*\))?\s*\]/,
+    /\[\s*Route\s*\(\s*"(?<name>[^"]*)"\s*\)\s*\]/,
+    // Minimal APIs: app.MapGet("/users", ...)
+    /\.Map(?<method>Get|Post|Put|Delete|Patch)\(\s*"(?<name>[^"]+)"/
+  ],
+  publicPatterns: [
+    /\bpublic\b/
+  ],
+  testPatterns: [],
+  testMarkers: [
+    /^\s*\[\s*(?:Fact|Theory|Test|TestMethod|TestCase)\b/
+  ],
+  testFilePatterns: [
+    /Tests?\.cs$/,
+    /\.Tests?\//
+  ]
+};
@@ -0,0 +1,29 @@
+import type { LanguageAnalyzer } from './types.js';
+
+export const goAnalyzer: LanguageAnalyzer = {
+  name: 'go',
+  extensions: ['.go'],
+  functionPatterns: [
+    /^func\s+(?:\([^)]*\)\s*)?(?<name>\w+)\s*(?:\[[^\]]*\])?\(/
+  ],
+  typePatterns: [
+    /^\s*type\s+(?<name>\w+)\s+(?:struct|interface)\b/
+  ],
+  routePatterns: [
+    // net/http: http.HandleFunc("/users", ...), mux.Handle("GET /users", ...)
+    /\.(?:HandleFunc|Handle)\(\s*"(?<name>[^"]+)"/,
+    // gin, echo, chi: r.GET("/users", ...), e.Post("/users", ...)
+    /\.(?<method>GET|POST|PUT|DELETE|PATCH|Get|Post|Put|Delete|Patch)\(\s*"(?<name>\/[^"]*)"/
+  ],
+  // Capitalized names are exported
+  publicPatterns: [
+    /^func\s+(?:\([^)]*\)\s*)?[A-Z]/,
+    /^\s*type\s+[A-Z]/
+  ],
+  testPatterns: [
+    /^func\s+(?<name>(?:Test|Benchmark|Fuzz)\w*)\s*\(/
+  ],
+  testFilePatterns: [
+    /_test\.go$/
+  ]
+};
@@ -0,0 +1,255 @@
+import { splitDiffByFile } from '../../utils/diff.js';
+import { javascriptAnalyzer } from './javascript.js';
+import { pythonAnalyzer } from './python.js';
+import { goAnalyzer } from './go.js';
+import { csharpAnalyzer } from './csharp.js';
+import { javaAnalyzer } from './java.js';
+import { rustAnalyzer } from './rust.js';
+import type { LanguageAnalyzer, LanguageSignals, Rename } from './types.js';
+
+export type { LanguageAnalyzer, LanguageSignals, Rename } from './types.js';
+
+const ANALYZERS: LanguageAnalyzer[] = [
+  javascriptAnalyzer,
+  pythonAnalyzer,
+  goAnalyzer,
+  csharpAnalyzer,
+  javaAnalyzer,
+  rustAnalyzer
+];
+
+interface Declarations {
+  functions: Set<string>;
+  types: Set<string>;
+  routes: Set<string>;
+  tests: Set<string>;
+  sources: Map<string, string>; // declared name -> the line declaring it
+}
+
+/**
+ * Add support for another language. Later registrations win for shared extensions.
+ */
+export function registerAnalyzer(analyzer: LanguageAnalyzer): void {
+  ANALYZERS.unshift(analyzer);
+}
+
+/**
+ * Find the analyzer for a file by its extension
+ */
+export function getAnalyzer(path: string): LanguageAnalyzer | undefined {
+  const lower = path.toLowerCase();
+  return ANALYZERS.find(a => a.extensions.some(ext => lower.endsWith(ext)));
+}
+
+/**
+ * Check whether a file only holds tests, according to its language's conventions
+ */
+export function isTestFile(path: string): boolean {
+  return ANALYZERS.some(a => a.testFilePatterns?.some(p => p.test(path)));
+}
+
+export function emptySignals(): LanguageSignals {
+  return {
+    addedFunctions: [],
+    removedFunctions: [],
+    renamedFunctions: [],
+    addedTypes: [],
+    removedTypes: [],
+    renamedTypes: [],
+    addedRoutes: [],
+    removedRoutes: [],
+    addedTests: [],
+    removedTests: [],
+    removedExports: []
+  };
+}
+
+/**
+ * Find added and removed declarations in every file of a diff that has a registered analyzer
+ * @param diff - The git diff string
+ * @returns Declarations merged across all files. A name that is both added and removed
+ *          (e.g. a changed signature) counts as neither, and a declaration whose line only
+ *          changed its name counts as renamed.
+ */
+export function analyzeSymbols(diff: string): LanguageSignals {
+  let signals = emptySignals();
+
+  for (const file of splitDiffByFile(diff)) {
+    const fileSignals = analyzeFile(file.path, file.diff);
+
+    if (fileSignals) {
+      signals = mergeSignals(signals, fileSignals);
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Find added and removed declarations in a single file's diff
+ * @returns The signals, or null when no analyzer handles the file
+ */
+export function analyzeFile(path: string, fileDiff: string): LanguageSignals | null {
+  const analyzer = getAnalyzer(path);
+
+  if (!analyzer) {
+    return null;
+  }
+
+  const lines = fileDiff.split('\n');
+  const added = collect(analyzer, lines.filter(l => l.startsWith('+') && !l.startsWith('+++')));
+  const removed = collect(analyzer, lines.filter(l => l.startsWith('-') && !l.startsWith('---')));
+
+  const only = (a: Set<string>, b: Set<string>): string[] => [...a].filter(name => !b.has(name));
+
+  const functions = pairRenames(only(added.functions, removed.functions), only(removed.functions, added.functions), added, removed);
+  const types = pairRenames(only(added.types, removed.types), only(removed.types, added.types), added, removed);
+
+  // A public declaration that is gone or renamed breaks its callers
+  const isPublic = (name: string): boolean => {
+    const line = removed.sources.get(name) ?? '';
+    return analyzer.publicPatterns?.some(p => p.test(line)) ?? true;
+  };
+  const removedExports = [
+    ...functions.removed,
+    ...types.removed,
+    ...[...functions.renamed, ...types.renamed].map(r => r.from)
+  ].filter(isPublic);
+
+  return {
+    addedFunctions: functions.added,
+    removedFunctions: functions.removed,
+    renamedFunctions: functions.renamed,
+    addedTypes: types.added,
+    removedTypes: types.removed,
+    renamedTypes: types.renamed,
+    addedRoutes: only(added.routes, removed.routes),
+    removedRoutes: only(removed.routes, added.routes),
+    addedTests: only(added.tests, removed.tests),
+    removedTests: only(removed.tests, added.tests),
+    removedExports
+  };
+}
+
+/**
+ * Find the function or type declared on a single line, e.g. the context of a hunk header
+ * @returns The declared name, or null if the line declares nothing the file's analyzer knows
+ */
+export function findDeclaration(path: string, line: string): string | null {
+  const analyzer = getAnalyzer(path);
+
+  if (!analyzer) {
+    return null;
+  }
+
+  return matchName(analyzer.typePatterns, line) ?? matchName(analyzer.functionPatterns, line);
+}
+
+/**
+ * Match removed and added declarations whose lines are identical apart from the name
+ */
+function pairRenames(
+  addedNames: string[],
+  removedNames: string[],
+  added: Declarations,
+  removed: Declarations
+): { added: string[]; removed: string[]; renamed: Rename[] } {
+  const renamed: Rename[] = [];
+  const withoutName = (line: string | undefined, name: string): string =>
+    (line ?? '').replace(new RegExp(`\\b${name}\\b`), '').trim();
+
+  for (const from of removedNames) {
+    const to = addedNames.find(name =>
+      !renamed.some(r => r.to === name) &&
+      withoutName(removed.sources.get(from), from) === withoutName(added.sources.get(name), name)
+    );
+
+    if (to) {
+      renamed.push({ from, to });
+    }
+  }
+
+  return {
+    added: addedNames.filter(name => !renamed.some(r => r.to === name)),
+    removed: removedNames.filter(name => !renamed.some(r => r.from === name)),
+    renamed
+  };
+}
+
+function collect(analyzer: LanguageAnalyzer, lines: string[]): Declarations {
+  const found: Declarations = {
+    functions: new Set(),
+    types: new Set(),
+    routes: new Set(),
+    tests: new Set(),
+    sources: new Map()
+  };
+  let markedAsTest = false;
+
+  for (const line of lines.map(l => l.slice(1))) {
+    if (analyzer.testMarkers?.some(p => p.test(line))) {
+      markedAsTest = true;
+      continue;
+    }
+
+    const test = matchName(analyzer.testPatterns, line);
+    if (test) {
+      found.tests.add(test);
+      continue;
+    }
+
+    // Types first: "record Item(String name)" is a type, not a method
+    const type = matchName(analyzer.typePatterns, line);
+    if (type) {
+      found.types.add(type);
+      found.sources.set(type, line);
+      continue;
+    }
+
+    const fn = matchName(analyzer.functionPatterns, line);
+    if (fn) {
+      (markedAsTest ? found.tests : found.functions).add(fn);
+      found.sources.set(fn, line);
+      markedAsTest = false;
+      continue;
+    }
+
+    for (const pattern of analyzer.routePatterns) {
+      const match = pattern.exec(line);
+      if (match?.groups) {
+        const { method, name } = match.groups;
+        const verb = method && !/^request$/i.test(method) ? method.toUpperCase() : '';
+        found.routes.add([verb, name].filter(Boolean).join(' ') || 'route');
+        break;
+      }
+    }
+  }
+
+  return found;
+}
+
+function matchName(patterns: RegExp[], line: string): string | null {
+  for (const pattern of patterns) {
+    const name = pattern.exec(line)?.groups?.name;
+    if (name) {
+      return name;
+    }
+  }
+  return null;
+}
+
+function mergeSignals(a: LanguageSignals, b: LanguageSignals): LanguageSignals {
+  return {
+    addedFunctions: [...a.addedFunctions, ...b.addedFunctions],
+    removedFunctions: [...a.removedFunctions, ...b.removedFunctions],
+    renamedFunctions: [...a.renamedFunctions, ...b.renamedFunctions],
+    addedTypes: [...a.addedTypes, ...b.addedTypes],
+    removedTypes: [...a.removedTypes, ...b.removedTypes],
+    renamedTypes: [...a.renamedTypes, ...b.renamedTypes],
+    addedRoutes: [...a.addedRoutes, ...b.addedRoutes],
+    removedRoutes: [...a.removedRoutes, ...b.removedRoutes],
+    addedTests: [...a.addedTests, ...b.addedTests],
+    removedTests: [...a.removedTests, ...b.removedTests],
+    removedExports: [...a.removedExports, ...b.removedExports]
+  };
+}
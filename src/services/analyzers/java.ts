@@ -0,0 +1,33 @@
+import type { LanguageAnalyzer } from './types.js';
+
+export const javaAnalyzer: LanguageAnalyzer = {
+  name: 'java',
+  extensions: ['.java', '.kt'],
+  functionPatterns: [
+    /^\s*(?:public|private|protected)(?:\s+(?:static|final|synchronized|abstract|native|default))*\s+(?:<[^>]*>\s+)?[\w<>\[\],.?]+\s+(?<name>\w+)\s*\(/,
+    // Package-private methods, common for JUnit 5 tests: void shouldWork() {
+    /^\s+(?:static\s+)?(?:<[^>]*>\s+)?(?:void|boolean|int|long|double|float|char|byte|short|[A-Z][\w<>\[\],.?]*)\s+(?<name>\w+)\s*\([^;]*$/,
+    // Kotlin
+    /^\s*(?:(?:public|private|protected|internal|override|suspend|open|inline)\s+)*fun\s+(?:<[^>]*>\s*)?(?:\w+\.)?(?<name>\w+)\s*\(/
+  ],
+  typePatterns: [
+    /^\s*(?:(?:public|private|protected|static|final|abstract|sealed|data|open)\s+)*(?:class|interface|enum|record|object)\s+(?<name>\w+)/
+  ],
+  routePatterns: [
+    // Spring: @GetMapping("/users"), @RequestMapping(value = "/users")
+    /^\s*@(?<method>Get|Post|Put|Delete|Patch|Request)Mapping\b(?:\(\s*(?:(?:value|path)\s*=\s*)?\{?\s*"(?<name>[^"]*)")?/
+  ],
+  publicPatterns: [
+    /\bpublic\b/,
+    // Kotlin functions and objects are public unless marked otherwise
+    /^\s*(?:(?:override|suspend|open|inline|data|sealed|abstract)\s+)*(?:fun|object)\b/
+  ],
+  testPatterns: [],
+  testMarkers: [
+    /^\s*@(?:Test|ParameterizedTest|RepeatedTest|TestFactory)\b/
+  ],
+  testFilePatterns: [
+    /Tests?\.(java|kt)$/,
+    /(^|\/)src\/test\//
+  ]
+};
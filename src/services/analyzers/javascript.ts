@@ -0,0 +1,32 @@
+import type { LanguageAnalyzer } from './types.js';
+
+export const javascriptAnalyzer: LanguageAnalyzer = {
+  name: 'javascript',
+  extensions: ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.vue', '.svelte'],
+  functionPatterns: [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*(?<name>\w+)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+(?<name>\w+)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|\w+\s*=>)/,
+    /^\s*(?:export\s+)?const\s+(?<name>\w+)\s*=\s*(?:async\s*)?\(/
+  ],
+  typePatterns: [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(?<name>\w+)/,
+    /^\s*(?:export\s+)?(?:declare\s+)?interface\s+(?<name>\w+)/,
+    /^\s*(?:export\s+)?(?:declare\s+)?type\s+(?<name>\w+)\s*(?:<[^>]*>)?\s*=/,
+    /^\s*(?:export\s+)?(?:const\s+)?enum\s+(?<name>\w+)/
+  ],
+  routePatterns: [
+    // Express, Koa, Fastify: app.get('/users', ...)
+    /\b(?:app|router|server|fastify)\.(?<method>get|post|put|delete|patch)\(\s*['"`](?<name>[^'"`]+)/i,
+    // NestJS: @Get('users')
+    /^\s*@(?<method>Get|Post|Put|Delete|Patch)\(\s*['"`]?(?<name>[^'"`)]*)/
+  ],
+  publicPatterns: [
+    /^\s*export\b/
+  ],
+  testPatterns: [
+    /^\s*(?:it|test)(?:\.\w+)?\(\s*['"`](?<name>[^'"`]+)/
+  ],
+  testFilePatterns: [
+    /(__tests__|\.test\.|\.spec\.)/i
+  ]
+};
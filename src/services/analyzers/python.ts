@@ -0,0 +1,32 @@
+import type { LanguageAnalyzer } from './types.js';
+
+export const pythonAnalyzer: LanguageAnalyzer = {
+  name: 'python',
+  extensions: ['.py', '.pyi'],
+  functionPatterns: [
+    /^\s*(?:async\s+)?def\s+(?<name>\w+)\s*\(/
+  ],
+  typePatterns: [
+    /^\s*class\s+(?<name>\w+)/
+  ],
+  routePatterns: [
+    // FastAPI: @app.get("/users"), @router.post("/users")
+    /^\s*@\w+\.(?<method>get|post|put|delete|patch)\(\s*['"](?<name>[^'"]+)/i,
+    // Flask: @app.route("/users"), @bp.route("/users", methods=["POST"])
+    /^\s*@\w+\.route\(\s*['"](?<name>[^'"]+)/
+  ],
+  // Top-level declarations without a leading underscore
+  publicPatterns: [
+    /^(?:async\s+)?def\s+(?!_)/,
+    /^class\s+(?!_)/
+  ],
+  testPatterns: [
+    /^\s*(?:async\s+)?def\s+(?<name>test_\w+)\s*\(/,
+    /^\s*class\s+(?<name>Test\w+)/
+  ],
+  testFilePatterns: [
+    /(^|\/)test_[^/]+\.py$/,
+    /_test\.py$/,
+    /(^|\/)tests?\//
+  ]
+};
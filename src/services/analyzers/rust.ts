@@ -0,0 +1,29 @@
+import type { LanguageAnalyzer } from './types.js';
+
+export const rustAnalyzer: LanguageAnalyzer = {
+  name: 'rust',
+  extensions: ['.rs'],
+  functionPatterns: [
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+(?<name>\w+)/
+  ],
+  typePatterns: [
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait|union|type)\s+(?<name>\w+)/
+  ],
+  routePatterns: [
+    // actix-web, rocket: #[get("/users")]
+    /^\s*#\[(?<method>get|post|put|delete|patch)\(\s*"(?<name>[^"]+)"/,
+    // axum: .route("/users", get(list_users))
+    /\.route\(\s*"(?<name>[^"]+)"\s*,\s*(?<method>get|post|put|delete|patch)\b/
+  ],
+  // pub(crate) and pub(super) stay inside the crate
+  publicPatterns: [
+    /^\s*pub\s/
+  ],
+  testPatterns: [],
+  testMarkers: [
+    /^\s*#\[(?:\w+::)?test\b/
+  ],
+  testFilePatterns: [
+    /(^|\/)tests\/[^/]+\.rs$/
+  ]
+};
@@ -0,0 +1,41 @@
+export interface Rename {
+  from: string;
+  to: string;
+}
+
+export interface LanguageSignals {
+  addedFunctions: string[];
+  removedFunctions: string[];
+  renamedFunctions: Rename[];
+  addedTypes: string[];
+  removedTypes: string[];
+  renamedTypes: Rename[];
+  addedRoutes: string[];
+  removedRoutes: string[];
+  addedTests: string[];
+  removedTests: string[];
+  // Removed or renamed functions and types that were part of the public API
+  removedExports: string[];
+}
+
+/**
+ * Describes how to find declarations in one language.
+ * Each pattern runs against a single diff line (without its +/- prefix) and
+ * reports the declared name in a "name" group. Route patterns may also
+ * capture a "method" group, e.g. GET.
+ */
+export interface LanguageAnalyzer {
+  name: string;
+  extensions: string[];
+  functionPatterns: RegExp[];
+  typePatterns: RegExp[];
+  routePatterns: RegExp[];
+  testPatterns: RegExp[];
+  // Declarations that are visible outside their module, e.g. export or pub.
+  // Only these count as breaking when removed.
+  publicPatterns?: RegExp[];
+  // Lines such as @Test or #[test] that turn the next function into a test
+  testMarkers?: RegExp[];
+  // Files that only contain tests
+  testFilePatterns?: RegExp[];
+}
@@ -0,0 +1,155 @@
+import { splitDiffByFile, FileDiff } from '../utils/diff.js';
+import { isLockfile } from '../utils/ignore.js';
+import { isTrivialWhitespace } from './heuristics.js';
+import { getPathScope } from './format.js';
+
+export type OmitReason = 'lockfile' | 'generated' | 'whitespace' | 'truncated';
+
+export interface OmittedFile {
+  path: string;
+  reason: OmitReason;
+}
+
+export interface DiffBudget {
+  diff: string;           // the whole diff with low-signal content removed
+  chunks: string[];       // the reduced diff split into requests that fit the budget
+  omitted: OmittedFile[];
+}
+
+const GENERATED_PATTERNS = [
+  /\.min\.(js|css)$/i,
+  /\.map$/i,
+  /\.snap$/i,
+  /\.generated\.\w+$/i,
+  /\.g\.cs$/i,
+  /\.pb\.go$/i,
+  /_pb2\.py$/i
+];
+
+/**
+ * Fit a diff into a size budget: shrink lockfiles and generated files to their headers,
+ * drop whitespace-only files, truncate oversized files, and split what is left into chunks
+ * of related files that each fit in one provider request
+ * @param diff - The git diff string
+ * @param maxSize - Maximum characters per request
+ */
+export function budgetDiff(diff: string, maxSize: number): DiffBudget {
+  const omitted: OmittedFile[] = [];
+  const kept: FileDiff[] = [];
+
+  for (const file of splitDiffByFile(diff)) {
+    const reason = classifyLowSignal(file);
+
+    if (reason === 'whitespace') {
+      omitted.push({ path: file.path, reason });
+      continue;
+    }
+
+    if (reason) {
+      omitted.push({ path: file.path, reason });
+      kept.push({ ...file, diff: shrinkToHeader(file.diff) });
+      continue;
+    }
+
+    if (file.diff.length > maxSize) {
+      omitted.push({ path: file.path, reason: 'truncated' });
+      kept.push({ ...file, diff: truncate(file.diff, maxSize) });
+      continue;
+    }
+
+    kept.push(file);
+  }
+
+  const reduced = kept.map(f => f.diff).join('\n');
+
+  return {
+    diff: reduced,
+    chunks: reduced.length <= maxSize ? [reduced] : chunkFiles(kept, maxSize),
+    omitted
+  };
+}
+
+/**
+ * Describe what a budget left out, e.g. "package-lock.json (lockfile), dist/app.min.js (generated)"
+ */
+export function describeOmitted(omitted: OmittedFile[]): string {
+  return omitted.map(o => `${o.path} (${o.reason})`).join(', ');
+}
+
+function classifyLowSignal(file: FileDiff): OmitReason | null {
+  // Already reduced to a one-line summary when the diff was read (see ../utils/git)
+  const summarized = /^\[(lockfile|generated): \d+ added/m.exec(file.diff);
+  if (summarized) return summarized[1] as OmitReason;
+
+  if (isLockfile(file.path)) return 'lockfile';
+  if (GENERATED_PATTERNS.some(p => p.test(file.path))) return 'generated';
+
+  const changed = file.diff.split('\n').filter(l =>
+    (l.startsWith('+') && !l.startsWith('+++')) || (l.startsWith('-') && !l.startsWith('---'))
+  );
+
+  if (changed.some(l => /@generated|DO NOT EDIT/.test(l))) return 'generated';
+  if (changed.length > 0 && isTrivialWhitespace(changed)) return 'whitespace';
+
+  return null;
+}
+
+/**
+ * Keep only the file header and a note with the size of what was removed
+ */
+function shrinkToHeader(fileDiff: string): string {
+  const lines = fileDiff.split('\n');
+  const firstHunk = lines.findIndex(l => l.startsWith('@@'));
+
+  if (firstHunk === -1) {
+    return fileDiff;
+  }
+
+  const body = lines.slice(firstHunk);
+  const added = body.filter(l => l.startsWith('+')).length;
+  const removed = body.filter(l => l.startsWith('-')).length;
+
+  return [...lines.slice(0, firstHunk), `[${added} added and ${removed} removed lines omitted]`].join('\n');
+}
+
+function truncate(fileDiff: string, maxSize: number): string {
+  const cut = fileDiff.lastIndexOf('\n', maxSize);
+  return fileDiff.slice(0, cut > 0 ? cut : maxSize) + '\n[rest of file diff omitted]';
+}
+
+/**
+ * Pack files into chunks, keeping files from the same directory together where possible
+ */
+function chunkFiles(files: FileDiff[], maxSize: number): string[] {
+  const byScope = new Map<string, FileDiff[]>();
+
+  for (const file of files) {
+    const scope = getPathScope(file.path) ?? '';
+    byScope.set(scope, [...(byScope.get(scope) ?? []), file]);
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const group of byScope.values()) {
+    for (const file of group) {
+      if (current && current.length + file.diff.length + 1 > maxSize) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${file.diff}` : file.diff;
+    }
+
+    // Start each directory in a fresh chunk once the current one is reasonably full
+    if (current.length > maxSize / 2) {
+      chunks.push(current);
+      current = '';
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,111 @@
+import { parseCommit, ChangelogCategory } from './changelog.js';
+import { analyzeDiff } from './heuristics.js';
+
+export type BumpLevel = 'major' | 'minor' | 'patch';
+
+/**
+ * How much of a release a single commit calls for, and why
+ */
+export interface CommitImpact {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  level: BumpLevel | null;
+  reason: string;
+}
+
+export interface BumpRecommendation {
+  current: string;
+  level: BumpLevel | null; // null when no commit needs a release
+  next: string | null;
+  commits: CommitImpact[];
+}
+
+const LEVELS: BumpLevel[] = ['patch', 'minor', 'major'];
+
+// Documentation, style and test changes alone don't need a release
+const INTENT_LEVELS: Record<ChangelogCategory, BumpLevel | null> = {
+  'Feature': 'minor',
+  'Bug Fix': 'patch',
+  'Refactor': 'patch',
+  'Chore': 'patch',
+  'Other': 'patch',
+  'Documentation': null,
+  'Style': null,
+  'Test': null
+};
+
+/**
+ * Recommend the next semantic version from the commits since the last release
+ * @param commits - Hashes and full messages, newest first
+ * @param current - The current version, e.g. "1.2.3" or "v1.2.3"
+ * @param readDiff - Returns a commit's diff, checked for removed exports and endpoints
+ *                   when the message does not already say the change is breaking
+ */
+export function recommendBump(
+  commits: { hash: string; message: string }[],
+  current: string,
+  readDiff: (hash: string) => string
+): BumpRecommendation {
+  const impacts = commits.map(commit => assessCommit(commit, readDiff));
+  const level = impacts.reduce<BumpLevel | null>(
+    (highest, impact) => impact.level && (!highest || LEVELS.indexOf(impact.level) > LEVELS.indexOf(highest))
+      ? impact.level
+      : highest,
+    null
+  );
+
+  return {
+    current,
+    level,
+    next: level ? nextVersion(current, level) : null,
+    commits: impacts
+  };
+}
+
+/**
+ * Increase a version by one level, dropping any pre-release or build suffix
+ * @throws If the version is not semantic, e.g. "1.2"
+ */
+export function nextVersion(current: string, level: BumpLevel): string {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/.exec(current.trim());
+
+  if (!match) {
+    throw new Error(`"${current}" is not a semantic version (major.minor.patch)`);
+  }
+
+  const [major, minor, patch] = match.slice(1).map(Number);
+
+  switch (level) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    case 'patch':
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+function assessCommit(commit: { hash: string; message: string }, readDiff: (hash: string) => string): CommitImpact {
+  const parsed = parseCommit(commit.message);
+  const impact = {
+    hash: commit.hash,
+    shortHash: commit.hash.slice(0, 7),
+    subject: commit.message.split('\n')[0]
+  };
+
+  if (parsed.breaking) {
+    return { ...impact, level: 'major', reason: 'marked as breaking' };
+  }
+
+  const breakingChanges = analyzeDiff(readDiff(commit.hash)).details.breakingChanges;
+  if (breakingChanges.length > 0) {
+    const shown = breakingChanges.slice(0, 3).join(', ');
+    const more = breakingChanges.length > 3 ? ` and ${breakingChanges.length - 3} more` : '';
+    return { ...impact, level: 'major', reason: `${shown}${more}` };
+  }
+
+  const level = INTENT_LEVELS[parsed.intent];
+  const kind = parsed.intent === 'Other' ? 'unclassified change' : parsed.intent.toLowerCase();
+  return { ...impact, level, reason: level ? kind : `${kind}, no release needed` };
+}
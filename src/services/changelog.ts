@@ -0,0 +1,177 @@
+import { INTENTS, Intent, normalizeIntent } from './intents.js';
+import { stripStylePrefix, toMood } from './style.js';
+
+export type ChangelogCategory = Intent | 'Other';
+
+/**
+ * What a commit subject says about the change, read back from the intent or
+ * Conventional Commits format
+ */
+export interface ParsedCommit {
+  intent: ChangelogCategory;
+  scope?: string;
+  description: string;
+  breaking: boolean;
+}
+
+export interface ChangelogEntry extends ParsedCommit {
+  hash: string;
+  shortHash: string;
+}
+
+export interface ChangelogSection {
+  category: ChangelogCategory;
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+export interface Changelog {
+  version: string;
+  date: string; // YYYY-MM-DD
+  from?: string;
+  to: string;
+  breaking: ChangelogEntry[];
+  sections: ChangelogSection[];
+}
+
+// Section headings, in the order they appear in the changelog
+const SECTION_TITLES: Record<ChangelogCategory, string> = {
+  'Feature': 'Features',
+  'Bug Fix': 'Bug Fixes',
+  'Refactor': 'Refactors',
+  'Documentation': 'Documentation',
+  'Style': 'Style',
+  'Test': 'Tests',
+  'Chore': 'Chores',
+  'Other': 'Other Changes'
+};
+
+// Conventional Commits types that have no intent of their own
+const EXTRA_TYPES: Record<string, ChangelogCategory> = {
+  perf: 'Refactor',
+  build: 'Chore',
+  ci: 'Chore',
+  revert: 'Other'
+};
+
+// The intent of a plain subject, guessed from its first verb
+const VERB_INTENTS: Record<string, Intent> = {
+  add: 'Feature', implement: 'Feature', introduce: 'Feature', support: 'Feature', allow: 'Feature',
+  enable: 'Feature', expose: 'Feature', create: 'Feature',
+  fix: 'Bug Fix', correct: 'Bug Fix', prevent: 'Bug Fix', handle: 'Bug Fix', avoid: 'Bug Fix',
+  refactor: 'Refactor', rename: 'Refactor', move: 'Refactor', extract: 'Refactor', simplify: 'Refactor',
+  restructure: 'Refactor',
+  document: 'Documentation',
+  test: 'Test',
+  bump: 'Chore', upgrade: 'Chore', release: 'Chore'
+};
+
+// Commits that only exist to be squashed away
+const SKIPPED_SUBJECT = /^(fixup|squash|amend)! /;
+
+/**
+ * Read a commit message back into an intent, scope and description. Subjects in neither
+ * format are classified by their first verb, or as "Other".
+ */
+export function parseCommit(message: string): ParsedCommit {
+  const [firstLine, ...bodyLines] = message.trim().split('\n');
+  const subject = stripStylePrefix(firstLine.trim());
+  const breakingFooter = bodyLines.some(line => /^BREAKING[ -]CHANGE:/.test(line));
+
+  const conventional = /^([a-z]+)(?:\(([^)]*)\))?(!)?: (.+)$/.exec(subject);
+  if (conventional) {
+    const [, type, scope, bang, description] = conventional;
+    const intent = EXTRA_TYPES[type] ?? normalizeIntent(type);
+
+    if (intent) {
+      return {
+        intent,
+        ...(scope?.trim() ? { scope: scope.trim() } : {}),
+        description: description.trim(),
+        breaking: !!bang || breakingFooter
+      };
+    }
+  }
+
+  const prefixed = /^([^:]+): (.+)$/.exec(subject);
+  const intent = prefixed && (prefixed[1] === 'Update' ? 'Other' : normalizeIntent(prefixed[1]));
+  if (prefixed && intent) {
+    return { intent, description: prefixed[2].trim(), breaking: breakingFooter };
+  }
+
+  const verb = toMood(subject, 'imperative').split(' ')[0].toLowerCase();
+  return { intent: VERB_INTENTS[verb] ?? 'Other', description: subject, breaking: breakingFooter };
+}
+
+/**
+ * Group commits into changelog sections, keeping git log order (newest first) within each
+ * @param commits - Hashes and full messages, as returned by getCommitMessages
+ */
+export function buildChangelog(
+  commits: { hash: string; message: string }[],
+  release: { version: string; from?: string; to: string; date?: Date }
+): Changelog {
+  const entries: ChangelogEntry[] = commits
+    .filter(commit => !SKIPPED_SUBJECT.test(commit.message))
+    .map(commit => ({ hash: commit.hash, shortHash: commit.hash.slice(0, 7), ...parseCommit(commit.message) }));
+
+  const categories: ChangelogCategory[] = [...INTENTS, 'Other'];
+  const sections = categories
+    .map(category => ({
+      category,
+      title: SECTION_TITLES[category],
+      entries: entries.filter(entry => entry.intent === category)
+    }))
+    .filter(section => section.entries.length > 0);
+
+  return {
+    version: release.version,
+    date: (release.date ?? new Date()).toISOString().slice(0, 10),
+    ...(release.from ? { from: release.from } : {}),
+    to: release.to,
+    breaking: entries.filter(entry => entry.breaking),
+    sections
+  };
+}
+
+/**
+ * Render a changelog as a Markdown section, headed by its version and date
+ */
+export function renderChangelog(changelog: Changelog): string {
+  const lines = [`## ${changelog.version} (${changelog.date})`, ''];
+  const item = (entry: ChangelogEntry): string =>
+    `- ${entry.scope ? `**${entry.scope}:** ` : ''}${entry.description} (${entry.shortHash})`;
+
+  if (changelog.breaking.length > 0) {
+    lines.push('### ⚠ Breaking Changes', '', ...changelog.breaking.map(item), '');
+  }
+
+  for (const section of changelog.sections) {
+    lines.push(`### ${section.title}`, '', ...section.entries.map(item), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Insert a new version section above the previous ones, below the file's title and introduction
+ * @param existing - The current CHANGELOG.md, or an empty string
+ * @throws If the file already has a section for this version
+ */
+export function prependChangelog(existing: string, section: string, version: string): string {
+  const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (new RegExp(`^## \\[?v?${escaped}\\]?(\\s|$)`, 'm').test(existing)) {
+    throw new Error(`The changelog already has a section for ${version}`);
+  }
+
+  if (!existing.trim()) {
+    return `# Changelog\n\n${section}`;
+  }
+
+  const firstSection = existing.search(/^## /m);
+  if (firstSection === -1) {
+    return `${existing.trimEnd()}\n\n${section}`;
+  }
+
+  return existing.slice(0, firstSection) + section + '\n' + existing.slice(firstSection);
+}
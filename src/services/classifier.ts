@@ -0,0 +1,78 @@
+import type { DiffAnalysis, Signal } from './heuristics.js';
+import type { Intent } from './intents.js';
+
+export interface SignalContribution {
+  signal: Signal;
+  intent: Intent;
+  lines: number;   // changed lines behind the signal
+  weight: number;  // points per line
+  points: number;
+}
+
+export interface IntentScore {
+  intent: Intent;
+  score: number;
+  confidence: number; // share of all points, 0..1
+}
+
+export interface IntentClassification {
+  scores: IntentScore[];              // every intent, best first
+  contributions: SignalContribution[]; // the signals that fired, largest first
+}
+
+// Keyword signals only cover the lines that mention them, so each of those lines weighs more
+const SIGNAL_WEIGHTS: Record<Signal, { intent: Intent; weight: number }> = {
+  hasBugFix: { intent: 'Bug Fix', weight: 3 },
+  hasTestFix: { intent: 'Bug Fix', weight: 3 },
+  hasNewFunction: { intent: 'Feature', weight: 1 },
+  hasNewClass: { intent: 'Feature', weight: 1 },
+  hasNewEndpoint: { intent: 'Feature', weight: 1.5 },
+  hasNewComponent: { intent: 'Feature', weight: 1 },
+  hasRefactor: { intent: 'Refactor', weight: 3 },
+  hasRename: { intent: 'Refactor', weight: 1 },
+  hasMovedCode: { intent: 'Refactor', weight: 1 },
+  hasDeletions: { intent: 'Refactor', weight: 1 },
+  hasDocsChange: { intent: 'Documentation', weight: 1 },
+  hasCommentChange: { intent: 'Documentation', weight: 0.5 },
+  hasTestChange: { intent: 'Test', weight: 1 },
+  hasStyleChange: { intent: 'Style', weight: 2 },
+  hasWhitespaceOnly: { intent: 'Style', weight: 1 },
+  hasConfigChange: { intent: 'Chore', weight: 1 },
+  hasDependencyChange: { intent: 'Chore', weight: 1 },
+  hasGeneratedChange: { intent: 'Chore', weight: 1 }
+};
+
+// Tie-breaker, most specific first
+const PRECEDENCE: Intent[] = ['Bug Fix', 'Test', 'Documentation', 'Refactor', 'Feature', 'Chore', 'Style'];
+
+/**
+ * Score every intent by the changed lines behind each signal of an analysis
+ * @param analysis - Analysis results from analyzeDiff
+ * @returns All intents with their confidence, and how each signal contributed
+ */
+export function classifyIntent(analysis: DiffAnalysis): IntentClassification {
+  const contributions: SignalContribution[] = [];
+
+  for (const [signal, lines] of Object.entries(analysis.coverage) as [Signal, number][]) {
+    if (lines > 0) {
+      const { intent, weight } = SIGNAL_WEIGHTS[signal];
+      contributions.push({ signal, intent, lines, weight, points: lines * weight });
+    }
+  }
+
+  const total = contributions.reduce((sum, c) => sum + c.points, 0);
+
+  const scores = PRECEDENCE.map(intent => {
+    const score = contributions
+      .filter(c => c.intent === intent)
+      .reduce((sum, c) => sum + c.points, 0);
+
+    return { intent, score, confidence: total > 0 ? score / total : 0 };
+  });
+
+  return {
+    // Array.prototype.sort is stable, so ties keep PRECEDENCE order
+    scores: scores.sort((a, b) => b.score - a.score),
+    contributions: contributions.sort((a, b) => b.points - a.points)
+  };
+}
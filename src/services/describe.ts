@@ -0,0 +1,195 @@
+import type { DiffAnalysis, DependencyChange } from './heuristics.js';
+import type { Rename } from './analyzers/index.js';
+
+export interface DescribeOptions {
+  location?: boolean; // append "in llm service" and the like (default true)
+}
+
+// Directories whose name says what kind of module a file is, e.g. src/services/llm.ts -> "llm service"
+const MODULE_KINDS: Record<string, string> = {
+  services: 'service',
+  controllers: 'controller',
+  components: 'component',
+  commands: 'command',
+  models: 'model',
+  handlers: 'handler',
+  providers: 'provider',
+  hooks: 'hook',
+  routes: 'routes',
+  middleware: 'middleware',
+  utils: 'utils',
+  helpers: 'helpers'
+};
+
+const SOURCE_DIRS = ['src', 'lib', 'app', 'source'];
+
+const MAX_NAMES = 2;
+
+/**
+ * Build a message that names the functions, types, endpoints, files or dependencies a diff changed
+ * @param analysis - Analysis results from analyzeDiff
+ * @param intent - The determined intent type
+ * @returns The message, or null when the diff has nothing specific to name
+ */
+export function describeChange(analysis: DiffAnalysis, intent: string, options: DescribeOptions = {}): string | null {
+  const { symbols, details } = analysis;
+  const codeLocation = options.location === false ? null : describeLocation(details.files.code);
+  const at = (preposition: string): string => codeLocation ? ` ${preposition} ${codeLocation}` : '';
+
+  switch (intent) {
+    case 'Feature': {
+      if (symbols.addedRoutes.length > 0) {
+        return `add ${listNames(symbols.addedRoutes)} endpoint${symbols.addedRoutes.length !== 1 ? 's' : ''}`;
+      }
+      const added = [...symbols.addedTypes, ...symbols.addedFunctions];
+      if (added.length > 0) return `add ${listNames(added)}${at('to')}`;
+      if (details.addedFiles.length > 0) return `add ${listNames(details.addedFiles.map(baseName))}`;
+      return null;
+    }
+
+    case 'Bug Fix':
+      if (analysis.hasTestFix && details.files.test.length > 0) {
+        return `fix failing tests for ${listNames(testedNames(details.files.test))}`;
+      }
+      if (details.modifiedSymbols.length > 0) return `fix ${listNames(details.modifiedSymbols)}${at('in')}`;
+      return codeLocation ? `fix issues in ${codeLocation}` : null;
+
+    case 'Refactor': {
+      const renamed = [...symbols.renamedTypes, ...symbols.renamedFunctions];
+      if (renamed.length === 1) return `rename ${renamed[0].from} to ${renamed[0].to}`;
+      if (renamed.length > 1) return `rename ${listNames(renamed.map(r => r.from))}`;
+
+      const moved = describeMoves(details.renamedFiles);
+      if (moved) return moved;
+
+      const removed = [...symbols.removedTypes, ...symbols.removedFunctions];
+      if (removed.length > 0) return `remove ${listNames(removed)}${at('from')}`;
+      if (details.removedFiles.length > 0) return `remove ${listNames(details.removedFiles.map(baseName))}`;
+      if (details.modifiedSymbols.length > 0) return `refactor ${listNames(details.modifiedSymbols)}${at('in')}`;
+      return codeLocation ? `refactor ${codeLocation}` : null;
+    }
+
+    case 'Test': {
+      if (details.files.test.length === 0) return null;
+      const subjects = listNames(testedNames(details.files.test));
+      if (symbols.addedTests.length > 0 && symbols.removedTests.length === 0) return `add tests for ${subjects}`;
+      if (symbols.removedTests.length > 0 && symbols.addedTests.length === 0) return `remove tests for ${subjects}`;
+      return `update tests for ${subjects}`;
+    }
+
+    case 'Documentation':
+      if (details.files.docs.length > 0) {
+        return `update ${listNames(details.files.docs.map(path => baseName(path).replace(/\.(md|rst|txt)$/i, '')))}`;
+      }
+      if (details.modifiedSymbols.length > 0) return `document ${listNames(details.modifiedSymbols)}${at('in')}`;
+      return null;
+
+    case 'Chore':
+      if (details.dependencies.length > 0) return describeDependencies(details.dependencies);
+      if (details.files.config.length > 0) return `update ${listNames(details.files.config.map(baseName))}`;
+      return null;
+
+    case 'Style':
+      return codeLocation ? `format ${codeLocation}` : null;
+
+    default:
+      if (details.modifiedSymbols.length > 0) return `update ${listNames(details.modifiedSymbols)}${at('in')}`;
+      return codeLocation ? `update ${codeLocation}` : null;
+  }
+}
+
+/**
+ * Name the module a set of files belongs to, e.g. "llm service" or "analyzers"
+ * @returns The name, or null when the files don't share a meaningful directory
+ */
+export function describeLocation(paths: string[]): string | null {
+  if (paths.length === 0) {
+    return null;
+  }
+
+  if (paths.length === 1) {
+    const parts = paths[0].split('/');
+    const name = stripExtension(parts[parts.length - 1]);
+    const dir = parts[parts.length - 2];
+
+    if (/^(index|mod|__init__|main)$/i.test(name)) {
+      return dir && !SOURCE_DIRS.includes(dir) ? dir : null;
+    }
+
+    return dir && MODULE_KINDS[dir] ? `${name} ${MODULE_KINDS[dir]}` : name;
+  }
+
+  // Deepest directory shared by every file
+  const dirs = paths.map(p => p.split('/').slice(0, -1));
+  const common: string[] = [];
+  for (let i = 0; dirs.every(d => i < d.length && d[i] === dirs[0][i]); i++) {
+    common.push(dirs[0][i]);
+  }
+
+  const dir = common[common.length - 1];
+  return dir && !SOURCE_DIRS.includes(dir) ? dir : null;
+}
+
+/**
+ * Join names for a subject line: "a", "a and b", "a, b and 3 more"
+ */
+export function listNames(names: string[]): string {
+  const unique = [...new Set(names)];
+
+  if (unique.length <= MAX_NAMES) {
+    return unique.join(' and ');
+  }
+
+  return `${unique.slice(0, MAX_NAMES).join(', ')} and ${unique.length - MAX_NAMES} more`;
+}
+
+function describeMoves(renames: Rename[]): string | null {
+  if (renames.length === 0) {
+    return null;
+  }
+
+  const dirOf = (path: string): string => path.split('/').slice(0, -1).join('/');
+
+  if (renames.length === 1) {
+    const { from, to } = renames[0];
+    return dirOf(from) === dirOf(to)
+      ? `rename ${baseName(from)} to ${baseName(to)}`
+      : `move ${baseName(from)} to ${dirOf(to) || 'the repository root'}`;
+  }
+
+  const targets = new Set(renames.map(r => dirOf(r.to)));
+  return targets.size === 1
+    ? `move ${renames.length} files to ${[...targets][0] || 'the repository root'}`
+    : `move ${listNames(renames.map(r => baseName(r.from)))}`;
+}
+
+function describeDependencies(changes: DependencyChange[]): string {
+  if (changes.length === 1) {
+    const { name, from, to } = changes[0];
+    if (!from) return `add ${name} dependency`;
+    if (!to) return `remove ${name} dependency`;
+    return `bump ${name} to ${to}`;
+  }
+
+  return `update ${listNames(changes.map(c => c.name))} dependencies`;
+}
+
+/**
+ * The names of the modules a set of test files cover, e.g. "cache" for src/cache.test.ts
+ */
+function testedNames(paths: string[]): string[] {
+  return paths.map(path =>
+    stripExtension(baseName(path))
+      .replace(/[._-](test|spec)s?$/i, '')
+      .replace(/^test_/i, '')
+      .replace(/Tests?$/, '')
+  );
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
@@ -0,0 +1,177 @@
+import { getConfig, getConfigSource, MessageFormat } from '../utils/config.js';
+import { appendTrailers, getIdentity } from '../utils/git.js';
+import { upperFirst, lowerFirst } from '../utils/text.js';
+import { toConventionalType } from './intents.js';
+import { getStyleProfile, styleMessage, stylePrefix, styleScope, StyleProfile } from './style.js';
+import type { CommitSuggestion } from './providers/index.js';
+
+export interface FormatOptions {
+  format?: MessageFormat;
+  files?: string[];
+  breaking?: boolean;
+  body?: boolean;
+  style?: boolean; // follow the repository's commit style (default: config.style)
+  trailers?: boolean; // add config.trailers and the sign-off (default: true)
+}
+
+// Never wrap subjects shorter than this, even if the history is terse
+const MIN_STYLE_LENGTH = 50;
+
+// Directories whose children are individual workspace packages
+const WORKSPACE_ROOTS = ['packages', 'apps', 'libs', 'services', 'modules', 'plugins'];
+
+// Generic source roots that make poor scopes on their own
+const SOURCE_ROOTS = ['src', 'lib', 'app', 'source'];
+
+/**
+ * Build the final commit message from a suggestion
+ * @param suggestion - The intent, message and body from a provider
+ * @param options - Output format, changed files for scope inference, breaking flag and whether to keep the body
+ * @returns The subject ("Intent: message", "type(scope)!: message" or just the message), followed by a
+ *          blank line and the body if there is one. Unless disabled, the subject follows the style
+ *          learned from the repository's history. Configured trailers close the message.
+ */
+export function formatCommitMessage(suggestion: CommitSuggestion, options: FormatOptions = {}): string {
+  const config = getConfig();
+  const profile = (options.style ?? config.style) ? getStyleProfile() : null;
+  const format = resolveFormat(options.format, profile);
+
+  let subject = formatSubject(suggestion, format, options, profile);
+
+  // The prefix counts against the limit, so the finished subject is what gets measured.
+  // Styling can change the message's length, hence another pass until it fits or can't wrap.
+  const limit = profile
+    ? Math.min(config.maxSubjectLength, Math.max(profile.longLength, MIN_STYLE_LENGTH))
+    : config.maxSubjectLength;
+  while (subject.length > limit) {
+    const wrapped = wrapSubject(suggestion, suggestion.message.length - (subject.length - limit));
+    if (wrapped === suggestion) {
+      break;
+    }
+    suggestion = wrapped;
+    subject = formatSubject(suggestion, format, options, profile);
+  }
+
+  const body = (options.body ?? config.body) ? suggestion.body : undefined;
+  const message = body ? `${subject}\n\n${body}` : subject;
+
+  return options.trailers === false ? message : appendTrailers(message, getConfiguredTrailers());
+}
+
+/**
+ * Get the trailers every generated message ends with: config.trailers, then Signed-off-by
+ * when config.signoff is set
+ */
+export function getConfiguredTrailers(): string[] {
+  const config = getConfig();
+  const identity = config.signoff ? getIdentity() : null;
+
+  return [...config.trailers, ...(identity ? [`Signed-off-by: ${identity}`] : [])];
+}
+
+/**
+ * Pick the message format: an explicit choice, then a configured one, then the format the
+ * repository's history uses, then the built-in default
+ */
+export function resolveFormat(explicit?: MessageFormat, profile?: StyleProfile | null): MessageFormat {
+  const config = getConfig();
+
+  if (explicit) {
+    return explicit;
+  }
+
+  return profile && getConfigSource('format') === 'default' ? profile.format : config.format;
+}
+
+/**
+ * Wrap an overly long message at a word boundary, moving the overflow into the body.
+ * At least two words move, a single one would read as a stray fragment.
+ * @returns The suggestion unchanged when it fits or has no such boundary
+ */
+export function wrapSubject(suggestion: CommitSuggestion, maxLength: number): CommitSuggestion {
+  const { message } = suggestion;
+
+  if (message.length <= maxLength) {
+    return suggestion;
+  }
+
+  let cut = message.lastIndexOf(' ', maxLength);
+  if (cut > 0 && !message.slice(cut + 1).includes(' ')) {
+    cut = message.lastIndexOf(' ', cut - 1);
+  }
+
+  if (cut <= 0) {
+    return suggestion;
+  }
+
+  const overflow = message.slice(cut).trim();
+
+  return {
+    ...suggestion,
+    message: message.slice(0, cut).trimEnd(),
+    body: [overflow, suggestion.body].filter(Boolean).join('\n\n')
+  };
+}
+
+function formatSubject(
+  suggestion: CommitSuggestion,
+  format: MessageFormat,
+  options: FormatOptions,
+  profile: StyleProfile | null
+): string {
+  const message = profile ? styleMessage(suggestion.message, profile) : suggestion.message;
+  const prefix = profile ? stylePrefix(suggestion.intent, profile) : '';
+
+  if (format === 'plain') {
+    return prefix + (profile ? message : upperFirst(message));
+  }
+
+  if (format !== 'conventional') {
+    return `${prefix}${suggestion.intent}: ${message}`;
+  }
+
+  const type = toConventionalType(suggestion.intent);
+  const inferred = inferScope(options.files ?? []);
+  const scope = profile ? styleScope(inferred, options.files ?? [], profile) : inferred;
+  const breaking = options.breaking || suggestion.breaking ? '!' : '';
+
+  return `${prefix}${type}${scope ? `(${scope})` : ''}${breaking}: ${profile ? message : lowerFirst(message)}`;
+}
+
+/**
+ * Infer a Conventional Commits scope from the changed paths
+ * @param files - Changed file paths relative to the repository root
+ * @returns The shared package or directory name, or undefined when the files don't agree
+ */
+export function inferScope(files: string[]): string | undefined {
+  const scopes = new Set(files.map(getPathScope));
+
+  if (scopes.size !== 1) {
+    return undefined;
+  }
+
+  return [...scopes][0];
+}
+
+/**
+ * Get the workspace package or directory a single path belongs to
+ * @returns The scope name, or undefined for root-level files
+ */
+export function getPathScope(file: string): string | undefined {
+  const parts = file.split('/');
+
+  // Root-level files have no scope
+  if (parts.length < 2) {
+    return undefined;
+  }
+
+  if (WORKSPACE_ROOTS.includes(parts[0]) && parts.length > 2) {
+    return parts[1];
+  }
+
+  if (SOURCE_ROOTS.includes(parts[0])) {
+    return parts.length > 2 ? parts[1] : undefined;
+  }
+
+  return parts[0];
+}
@@ -0,0 +1,589 @@
+import type { CommitSuggestion } from './providers/types.js';
+import { parseDiff, ParsedDiff, ParsedFile, DiffHunk } from '../utils/diff.js';
+import { isLockfile } from '../utils/ignore.js';
+import { analyzeSymbols, analyzeFile, findDeclaration, isTestFile, LanguageSignals, Rename } from './analyzers/index.js';
+import { classifyIntent } from './classifier.js';
+import { describeChange } from './describe.js';
+
+export interface DiffAnalysis {
+  hasBugFix: boolean;
+  hasTestFix: boolean;
+  hasNewFunction: boolean;
+  hasNewClass: boolean;
+  hasNewEndpoint: boolean;
+  hasNewComponent: boolean;
+  hasRefactor: boolean;
+  hasRename: boolean;
+  hasMovedCode: boolean;
+  hasDocsChange: boolean;
+  hasCommentChange: boolean;
+  hasTestChange: boolean;
+  hasDeletions: boolean;
+  hasStyleChange: boolean;
+  hasWhitespaceOnly: boolean;
+  hasConfigChange: boolean;
+  hasDependencyChange: boolean;
+  hasGeneratedChange: boolean;
+  hasBreakingChange: boolean;
+  symbols: LanguageSignals;
+  details: ChangeDetails;
+  coverage: SignalCoverage;
+  additions: number;
+  deletions: number;
+  hasChanges: boolean;
+}
+
+// The DiffAnalysis flags that count towards an intent (see ./classifier)
+export type Signal =
+  | 'hasBugFix'
+  | 'hasTestFix'
+  | 'hasNewFunction'
+  | 'hasNewClass'
+  | 'hasNewEndpoint'
+  | 'hasNewComponent'
+  | 'hasRefactor'
+  | 'hasRename'
+  | 'hasMovedCode'
+  | 'hasDocsChange'
+  | 'hasCommentChange'
+  | 'hasTestChange'
+  | 'hasDeletions'
+  | 'hasStyleChange'
+  | 'hasWhitespaceOnly'
+  | 'hasConfigChange'
+  | 'hasDependencyChange'
+  | 'hasGeneratedChange';
+
+// Number of changed lines behind each signal
+export type SignalCoverage = Record<Signal, number>;
+
+export interface ChangeSummary {
+  total?: number;   // changed files
+  renamed?: number;
+}
+
+export type FileKind = 'dependency' | 'test' | 'docs' | 'config' | 'code';
+
+export interface DependencyChange {
+  name: string;
+  from?: string; // missing for new dependencies
+  to?: string;   // missing for removed dependencies
+}
+
+// Names pulled out of the diff so offline messages can say what changed
+export interface ChangeDetails {
+  files: Record<FileKind, string[]>;
+  addedFiles: string[];
+  removedFiles: string[];
+  renamedFiles: Rename[];
+  modifiedSymbols: string[]; // declarations whose body changed, from the hunk headers
+  dependencies: DependencyChange[];
+  breakingChanges: string[]; // e.g. "remove export parseConfig", "remove endpoint DELETE /users"
+}
+
+const PATTERNS = {
+  bugFix: /\b(fix(e[ds])?|bug|error|issue|crash|incorrect|fault)\b/i,
+  testFix: /\b(fix|repair|correct).*(test|spec)\b/i,
+  refactor: /\b(refactor|cleanup|simplify|restructure|reorganize)\b/i,
+  style: /\b(format|lint|prettier|indent)\b/i,
+  comment: /^\+\s*(\/\/|\/\*|\*|#(?!include|!|\[))/
+};
+
+// A lockfile can change thousands of lines for a one-line version bump, and a build as many in its output
+const MAX_DEPENDENCY_LINES = 20;
+
+export function extractFilesFromDiff(diff: string): string[] {
+  return [...new Set(parseDiff(diff).files.map(file => file.path))];
+}
+
+/**
+ * Count the changed and renamed files of a parsed diff
+ */
+export function summarizeDiff(diff: ParsedDiff): ChangeSummary {
+  return {
+    total: diff.files.length,
+    renamed: diff.files.filter(file => file.status === 'renamed').length
+  };
+}
+
+export function isTrivialWhitespace(lines: string[]): boolean {
+  return lines.every(l =>
+    /^[+-]\s*$/.test(l) ||
+    /^[+-]\s*[{}();,]*\s*$/.test(l)
+  );
+}
+
+/**
+ * Analyze the added and removed lines of a diff for patterns
+ * @param diff - The git diff string
+ * @param summary - Optional summary with file change counts
+ * @returns Analysis results with detected patterns and the lines behind each one
+ */
+export function analyzeDiff(diff: string, summary: ChangeSummary = {}): DiffAnalysis {
+  const coverage = emptyCoverage();
+  const { files } = parseDiff(diff);
+
+  let additions = 0;
+  let deletions = 0;
+  let codeAdditions = 0;
+  let codeDeletions = 0;
+  const addedLines: string[] = [];
+  const removedLines: string[] = [];
+
+  // Declarations found by the per-language analyzers (see ./analyzers)
+  const symbols = analyzeSymbols(diff);
+
+  const details: ChangeDetails = {
+    files: { dependency: [], test: [], docs: [], config: [], code: [] },
+    addedFiles: [],
+    removedFiles: [],
+    renamedFiles: [],
+    modifiedSymbols: [],
+    dependencies: [],
+    breakingChanges: []
+  };
+  const removedExports: string[] = [];
+  const removedRoutes: string[] = [];
+
+  for (const file of files) {
+    const lines = file.hunks.flatMap(hunk => hunk.lines);
+    const added = lines.filter(l => l.startsWith('+'));
+    const removed = lines.filter(l => l.startsWith('-'));
+    const changed = [...added, ...removed];
+    const kind = classifyFile(file.path);
+
+    // Lockfiles and generated files only come with their line counts (see ../utils/git)
+    additions += file.summarized ? file.additions : added.length;
+    deletions += file.summarized ? file.deletions : removed.length;
+    addedLines.push(...added);
+    removedLines.push(...removed);
+
+    details.files[kind].push(file.path);
+    if (file.status === 'added') details.addedFiles.push(file.path);
+    if (file.status === 'deleted') details.removedFiles.push(file.path);
+    if (file.status === 'renamed' && file.oldPath) details.renamedFiles.push({ from: file.oldPath, to: file.path });
+
+    if (file.summarized === 'generated') {
+      coverage.hasGeneratedChange += Math.min(file.additions + file.deletions, MAX_DEPENDENCY_LINES);
+      continue;
+    }
+
+    if (kind === 'code' || kind === 'test') {
+      details.modifiedSymbols.push(...hunkContexts(file));
+    }
+
+    switch (kind) {
+      case 'dependency':
+        coverage.hasDependencyChange += Math.min(file.summarized ? file.additions + file.deletions : changed.length, MAX_DEPENDENCY_LINES);
+        if (/(^|\/)package\.json$/.test(file.path)) {
+          details.dependencies.push(...packageChanges(added, removed));
+        }
+        break;
+
+      case 'test':
+        coverage.hasTestChange += changed.length;
+        coverage.hasTestFix += changed.filter(l => PATTERNS.testFix.test(l)).length;
+        break;
+
+      case 'docs':
+        coverage.hasDocsChange += changed.length;
+        break;
+
+      case 'config':
+        coverage.hasConfigChange += changed.length;
+        break;
+
+      case 'code':
+        codeAdditions += added.length;
+        codeDeletions += removed.length;
+        coverage.hasBugFix += changed.filter(l => PATTERNS.bugFix.test(l)).length;
+        coverage.hasRefactor += changed.filter(l => PATTERNS.refactor.test(l)).length;
+        coverage.hasStyleChange += changed.filter(l => PATTERNS.style.test(l)).length;
+        coverage.hasCommentChange += added.filter(l => PATTERNS.comment.test(l)).length;
+        coverDeclarations(file, coverage);
+        collectRemovedApi(file.path, file.diff, removedExports, removedRoutes);
+        break;
+    }
+  }
+
+  // Mostly-removed code reads as a cleanup
+  if (codeDeletions > codeAdditions * 2) {
+    coverage.hasDeletions = codeDeletions - codeAdditions;
+  }
+
+  // Only report bodies that changed, not declarations that were added, removed or renamed
+  const declared = new Set([
+    ...symbols.addedFunctions, ...symbols.removedFunctions, ...symbols.addedTypes, ...symbols.removedTypes,
+    ...[...symbols.renamedFunctions, ...symbols.renamedTypes].flatMap(r => [r.from, r.to])
+  ]);
+  details.modifiedSymbols = [...new Set(details.modifiedSymbols)].filter(name => !declared.has(name));
+
+  // Declarations that only moved to another file are still there
+  const stillDeclared = new Set([...symbols.addedFunctions, ...symbols.addedTypes, ...symbols.addedRoutes]);
+  details.breakingChanges = [
+    ...[...new Set(removedExports)].filter(name => !stillDeclared.has(name)).map(name => `remove export ${name}`),
+    ...[...new Set(removedRoutes)].filter(route => !stillDeclared.has(route)).map(route => `remove endpoint ${route}`)
+  ];
+
+  const renamed = Math.max(summary.renamed ?? 0, details.renamedFiles.length);
+  coverage.hasRename += details.renamedFiles.length;
+
+  const hasMovedCode = renamed > 0 && additions > 0 && deletions > 0;
+  if (hasMovedCode) {
+    coverage.hasMovedCode = Math.min(additions, deletions);
+  }
+
+  // Lines hidden behind a summary can't be told apart, so they never count as whitespace
+  const hasWhitespaceOnly =
+    additions + deletions > 0 &&
+    addedLines.length + removedLines.length === additions + deletions &&
+    isTrivialWhitespace([...addedLines, ...removedLines]);
+  if (hasWhitespaceOnly) {
+    coverage.hasWhitespaceOnly = additions + deletions;
+  }
+
+  const paths = files.map(f => f.path);
+  const hasTestChange =
+    paths.some(isTestPath) ||
+    symbols.addedTests.length > 0 ||
+    symbols.removedTests.length > 0;
+
+  return {
+    hasBugFix: coverage.hasBugFix > 0,
+    hasTestFix: coverage.hasTestFix > 0,
+
+    hasNewFunction: symbols.addedFunctions.length > 0,
+    hasNewClass: symbols.addedTypes.length > 0,
+    hasNewEndpoint: symbols.addedRoutes.length > 0,
+    hasNewComponent: coverage.hasNewComponent > 0,
+
+    hasRefactor: coverage.hasRefactor > 0,
+
+    hasRename: renamed > 0 || coverage.hasRename > 0,
+    hasMovedCode,
+
+    hasDocsChange: paths.some(isDocsPath),
+    hasCommentChange: coverage.hasCommentChange > 0,
+    hasTestChange,
+
+    hasDeletions: deletions > 0,
+    hasStyleChange: coverage.hasStyleChange > 0,
+
+    hasWhitespaceOnly,
+    hasConfigChange: paths.some(isConfigPath),
+    hasDependencyChange: paths.some(isDependencyPath),
+    hasGeneratedChange: coverage.hasGeneratedChange > 0,
+    // Removed exports only matter to bump (details.breakingChanges), not to every suggestion
+    hasBreakingChange: addedLines.some(l => /\bBREAKING[ -]CHANGE\b/.test(l)),
+    symbols,
+    details,
+    coverage,
+
+    additions,
+    deletions,
+    // A pure rename or an empty new file has no changed lines but is still a change
+    hasChanges: additions + deletions > 0 || renamed > 0 || details.addedFiles.length + details.removedFiles.length > 0
+  };
+}
+
+function emptyCoverage(): SignalCoverage {
+  return {
+    hasBugFix: 0,
+    hasTestFix: 0,
+    hasNewFunction: 0,
+    hasNewClass: 0,
+    hasNewEndpoint: 0,
+    hasNewComponent: 0,
+    hasRefactor: 0,
+    hasRename: 0,
+    hasMovedCode: 0,
+    hasDocsChange: 0,
+    hasCommentChange: 0,
+    hasTestChange: 0,
+    hasDeletions: 0,
+    hasStyleChange: 0,
+    hasWhitespaceOnly: 0,
+    hasConfigChange: 0,
+    hasDependencyChange: 0,
+    hasGeneratedChange: 0
+  };
+}
+
+const isDocsPath = (f: string): boolean => /\.(md|rst|txt)$/i.test(f) || /readme/i.test(f);
+const isTestPath = (f: string): boolean => /(__tests__|\.test\.|\.spec\.)/i.test(f) || isTestFile(f);
+const isConfigPath = (f: string): boolean => /\.(json|ya?ml|env|toml)$/i.test(f);
+const isDependencyPath = (f: string): boolean =>
+  isLockfile(f) || /(package(-lock)?\.json|requirements\.txt|go\.mod|pom\.xml)/i.test(f);
+
+function classifyFile(path: string): FileKind {
+  if (isDependencyPath(path)) return 'dependency';
+  if (isTestPath(path)) return 'test';
+  if (isDocsPath(path)) return 'docs';
+  if (isConfigPath(path)) return 'config';
+  return 'code';
+}
+
+/**
+ * Credit the added lines of each hunk that introduces a declaration to the matching signal.
+ * A hunk counts once, for the most specific thing it adds.
+ */
+function coverDeclarations(file: ParsedFile, coverage: SignalCoverage): void {
+  const fileSymbols = analyzeFile(file.path, file.diff);
+  const isComponentFile = /\.(jsx|tsx)$/i.test(file.path);
+
+  for (const hunk of file.hunks) {
+    const { lines } = hunk;
+    const added = lines.filter(l => l.startsWith('+')).length;
+    const removed = lines.filter(l => l.startsWith('-')).length;
+    const hunkSymbols = analyzeFile(file.path, hunkText(hunk));
+
+    // Only declarations that are new to the file, not moved within it
+    const adds = (found?: string[], inFile?: string[]): boolean =>
+      (found ?? []).some(name => inFile?.includes(name));
+
+    if (adds(hunkSymbols?.addedTests, fileSymbols?.addedTests) || adds(hunkSymbols?.removedTests, fileSymbols?.removedTests)) {
+      coverage.hasTestChange += added + removed;
+    } else if (hunkSymbols && [...hunkSymbols.renamedFunctions, ...hunkSymbols.renamedTypes].length > 0) {
+      coverage.hasRename += added + removed;
+    } else if (adds(hunkSymbols?.addedRoutes, fileSymbols?.addedRoutes)) {
+      coverage.hasNewEndpoint += added;
+    } else if (isComponentFile && lines.some(l => /^\+\s*(export\s+)?(function|const)\s+[A-Z]\w*/.test(l))) {
+      coverage.hasNewComponent += added;
+    } else if (adds(hunkSymbols?.addedTypes, fileSymbols?.addedTypes)) {
+      coverage.hasNewClass += added;
+    } else if (adds(hunkSymbols?.addedFunctions, fileSymbols?.addedFunctions)) {
+      coverage.hasNewFunction += added;
+    }
+  }
+}
+
+/**
+ * Collect the public declarations and endpoints a code file no longer has
+ */
+function collectRemovedApi(path: string, fileDiff: string, exports: string[], routes: string[]): void {
+  const fileSymbols = analyzeFile(path, fileDiff);
+
+  if (fileSymbols) {
+    exports.push(...fileSymbols.removedExports);
+    routes.push(...fileSymbols.removedRoutes);
+  }
+}
+
+/**
+ * Find the declarations that enclose each changed line. Git names the declaration above
+ * a hunk in its header ("@@ -10,6 +10,8 @@ function parseResponse(data) {"), and
+ * context lines inside the hunk can open a new one.
+ */
+function hunkContexts(file: ParsedFile): string[] {
+  const names = new Set<string>();
+
+  for (const hunk of file.hunks) {
+    let current = hunk.context ? findDeclaration(file.path, hunk.context) : null;
+
+    for (const line of hunk.lines) {
+      if (line.startsWith(' ')) {
+        current = findDeclaration(file.path, line.slice(1)) ?? current;
+      } else if (current && /^[+-]/.test(line)) {
+        names.add(current);
+      }
+    }
+  }
+
+  return [...names];
+}
+
+function hunkText(hunk: DiffHunk): string {
+  return [hunk.header, ...hunk.lines].join('\n');
+}
+
+const DEPENDENCY_LINE = /^[+-]\s*"(?<name>@?[\w.-]+(?:\/[\w.-]+)?)"\s*:\s*"(?<version>[^"]+)",?\s*$/;
+const VERSION_RANGE = /^([\^~<>=v]*\d|\*$|latest$|next$|(workspace|npm|file|link|git\+?\w*|github):)/;
+const PACKAGE_FIELDS = ['name', 'version', 'main', 'module', 'types', 'typings', 'type', 'license'];
+
+/**
+ * Find added, removed and bumped dependencies in the changed lines of a package.json
+ */
+function packageChanges(added: string[], removed: string[]): DependencyChange[] {
+  const versions = (lines: string[]): Map<string, string> => {
+    const found = new Map<string, string>();
+    for (const line of lines) {
+      const groups = DEPENDENCY_LINE.exec(line)?.groups;
+      if (groups && !PACKAGE_FIELDS.includes(groups.name) && VERSION_RANGE.test(groups.version)) {
+        found.set(groups.name, groups.version);
+      }
+    }
+    return found;
+  };
+
+  const before = versions(removed);
+  const after = versions(added);
+  const changes: DependencyChange[] = [];
+
+  for (const [name, to] of after) {
+    if (before.get(name) !== to) {
+      changes.push({ name, from: before.get(name), to });
+    }
+  }
+
+  for (const [name, from] of before) {
+    if (!after.has(name)) {
+      changes.push({ name, from });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Determine the commit intent type based on analysis
+ * @param analysis - Analysis results from analyzeDiff
+ * @returns The highest-scoring intent, or "Update" when no signal fired
+ */
+export function determineIntent(analysis: DiffAnalysis): string {
+  if (!analysis.hasChanges) return 'Chore';
+
+  const [top] = classifyIntent(analysis).scores;
+  return top.score > 0 ? top.intent : 'Update';
+}
+
+/**
+ * Generate a descriptive commit message based on analysis
+ * @param analysis - Analysis results from analyzeDiff
+ * @param intent - The determined intent type
+ * @returns A message naming what changed when the diff allows it, otherwise a generic one
+ */
+export function generateMessage(analysis: DiffAnalysis, intent: string, summary: ChangeSummary = {}): string {
+  return describeChange(analysis, intent) ?? templateMessage(analysis, intent, summary);
+}
+
+function templateMessage(analysis: DiffAnalysis, intent: string, summary: ChangeSummary = {}): string {
+  const fileCount = summary.total;
+  const hasFileCount = typeof fileCount === 'number' && fileCount > 0;
+  const fileWord = fileCount === 1 ? 'file' : 'files';
+
+  switch (intent) {
+    case 'Bug Fix':
+      return analysis.hasTestFix
+        ? hasFileCount
+          ? `fix failing tests in ${fileCount} ${fileWord}`
+          : 'fix failing tests'
+        : hasFileCount
+          ? `fix issues in ${fileCount} ${fileWord}`
+          : 'fix issues';
+
+    case 'Feature':
+      if (analysis.hasNewEndpoint) return 'add new API endpoints';
+      if (analysis.hasNewComponent) return 'add new components';
+      if (analysis.hasNewClass || analysis.hasNewFunction)
+        return hasFileCount
+          ? `add new functionality to ${fileCount} ${fileWord}`
+          : 'add new functionality';
+      return hasFileCount
+        ? `implement new features in ${fileCount} ${fileWord}`
+        : 'implement new features';
+
+    case 'Refactor':
+      if (analysis.hasMovedCode)
+        return hasFileCount
+          ? `restructure code in ${fileCount} ${fileWord}`
+          : 'restructure code';
+      if (analysis.deletions > analysis.additions * 2)
+        return hasFileCount
+          ? `remove unused code from ${fileCount} ${fileWord}`
+          : 'remove unused code';
+      return hasFileCount
+        ? `refactor code in ${fileCount} ${fileWord}`
+        : 'refactor code';
+
+    case 'Test':
+      return hasFileCount
+        ? `add/update tests in ${fileCount} ${fileWord}`
+        : 'add/update tests';
+
+    case 'Chore':
+      if (analysis.hasDependencyChange) return 'update dependencies';
+      if (analysis.hasGeneratedChange) return 'update generated files';
+      if (analysis.hasConfigChange) return 'update configuration files';
+      return 'update project configuration';
+
+    case 'Style':
+      return hasFileCount
+        ? `format and style ${fileCount} ${fileWord}`
+        : 'format and style code';
+
+    case 'Documentation':
+      return hasFileCount
+        ? fileCount === 1
+          ? 'update documentation'
+          : `update documentation in ${fileCount} ${fileWord}`
+        : 'update documentation';
+
+    default:
+      return hasFileCount
+        ? `update ${fileCount} ${fileWord}`
+        : 'update code';
+  }
+}
+
+const MAX_BODY_FILES = 10;
+
+/**
+ * Describe what changed in each file as a list of bullet points
+ * @param diff - The git diff string
+ * @returns The commit body, or undefined for single-file changes
+ */
+export function generateBody(diff: string): string | undefined {
+  const { files } = parseDiff(diff);
+
+  if (files.length < 2) {
+    return undefined;
+  }
+
+  const bullets = files.slice(0, MAX_BODY_FILES).map(file => {
+    const counts = `(+${file.additions}/-${file.deletions})`;
+    return `- ${file.path}: ${describeFile(file)} ${counts}`;
+  });
+
+  if (files.length > MAX_BODY_FILES) {
+    const rest = files.length - MAX_BODY_FILES;
+    bullets.push(`- and ${rest} more file${rest !== 1 ? 's' : ''}`);
+  }
+
+  return bullets.join('\n');
+}
+
+function describeFile(file: ParsedFile): string {
+  switch (file.status) {
+    case 'added': return 'add file';
+    case 'deleted': return 'remove file';
+    case 'renamed': return `rename from ${file.oldPath}`;
+    case 'copied': return `copy from ${file.oldPath}`;
+    case 'binary': return 'update binary file';
+    case 'mode': return `change mode to ${file.newMode}`;
+  }
+
+  // The bullet already names the file, so leave the location out
+  const analysis = analyzeDiff(file.diff);
+  const intent = determineIntent(analysis);
+  return describeChange(analysis, intent, { location: false }) ?? templateMessage(analysis, intent);
+}
+
+/**
+ * Build a commit suggestion from the diff alone, without any network access
+ * @param diff - The git diff string
+ * @param summary - File change counts, counted from the diff when not given
+ * @returns The suggested intent and message
+ */
+export function generateFallbackCommit(diff: string, summary: ChangeSummary = summarizeDiff(parseDiff(diff))): CommitSuggestion {
+  const analysis = analyzeDiff(diff, summary);
+  const intent = determineIntent(analysis);
+  const message = generateMessage(analysis, intent, summary);
+  const body = generateBody(diff);
+
+  return {
+    intent,
+    message,
+    ...(body ? { body } : {}),
+    ...(analysis.hasBreakingChange ? { breaking: true } : {})
+  };
+}
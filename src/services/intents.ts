@@ -0,0 +1,59 @@
+/**
+ * The intents produced by the heuristic engine and the remote providers
+ */
+export const INTENTS = [
+  'Feature',
+  'Bug Fix',
+  'Refactor',
+  'Documentation',
+  'Style',
+  'Test',
+  'Chore'
+] as const;
+
+export type Intent = typeof INTENTS[number];
+
+// Conventional Commits type for each intent
+export const CONVENTIONAL_TYPES: Record<Intent, string> = {
+  'Feature': 'feat',
+  'Bug Fix': 'fix',
+  'Refactor': 'refactor',
+  'Documentation': 'docs',
+  'Style': 'style',
+  'Test': 'test',
+  'Chore': 'chore'
+};
+
+/**
+ * Match a free-form intent (as returned by a provider) to a known intent
+ * @returns The canonical intent, or null if it is not recognised
+ */
+export function normalizeIntent(intent: string): Intent | null {
+  const key = intent.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+  const match = INTENTS.find(i => i.toLowerCase() === key);
+  if (match) return match;
+
+  const aliases: Record<string, Intent> = {
+    'feat': 'Feature',
+    'features': 'Feature',
+    'fix': 'Bug Fix',
+    'bugfix': 'Bug Fix',
+    'bug': 'Bug Fix',
+    'docs': 'Documentation',
+    'doc': 'Documentation',
+    'tests': 'Test',
+    'refactoring': 'Refactor'
+  };
+
+  return aliases[key] ?? null;
+}
+
+/**
+ * Get the Conventional Commits type for an intent.
+ * Unknown intents such as "Update" map to "chore".
+ */
+export function toConventionalType(intent: string): string {
+  const normalized = normalizeIntent(intent);
+  return normalized ? CONVENTIONAL_TYPES[normalized] : 'chore';
+}
@@ -0,0 +1,156 @@
+import type { MessageFormat } from '../utils/config.js';
+import { INTENTS, CONVENTIONAL_TYPES, normalizeIntent } from './intents.js';
+import { detectMood, stripStylePrefix, toMood } from './style.js';
+
+export type LintRule = 'empty' | 'format' | 'subject-length' | 'imperative' | 'forbidden-words' | 'blank-line';
+
+export interface LintViolation {
+  rule: LintRule;
+  message: string;
+}
+
+export interface LintResult {
+  subject: string;
+  violations: LintViolation[];
+}
+
+export interface LintOptions {
+  format: MessageFormat;
+  maxSubjectLength: number;
+  forbiddenWords: string[];
+}
+
+// The same vocabulary determineIntent produces, including its "Update" fallback
+const INTENT_NAMES: string[] = [...INTENTS, 'Update'];
+const CONVENTIONAL_TYPE_NAMES = [...new Set(Object.values(CONVENTIONAL_TYPES))];
+
+// Subjects git writes itself; only the generic rules apply to them
+const GENERATED_SUBJECT = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+
+/**
+ * Check a commit message against the configured format and message rules
+ * @param message - The full message, subject first
+ * @returns The subject and every rule it breaks
+ */
+export function lintMessage(message: string, options: LintOptions): LintResult {
+  const lines = message.replace(/\s+$/, '').split('\n');
+  const subject = lines[0].trim();
+  const violations: LintViolation[] = [];
+
+  if (!subject) {
+    return { subject, violations: [{ rule: 'empty', message: 'The commit message is empty' }] };
+  }
+
+  if (subject.length > options.maxSubjectLength) {
+    violations.push({
+      rule: 'subject-length',
+      message: `Subject is ${subject.length} characters, the limit is ${options.maxSubjectLength}`
+    });
+  }
+
+  if (lines.length > 1 && lines[1].trim() !== '') {
+    violations.push({ rule: 'blank-line', message: 'Separate the subject from the body with a blank line' });
+  }
+
+  for (const word of options.forbiddenWords) {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(^|[^\\w])${escaped}([^\\w]|$)`, 'i').test(message)) {
+      violations.push({ rule: 'forbidden-words', message: `Contains the forbidden word "${word}"` });
+    }
+  }
+
+  if (GENERATED_SUBJECT.test(subject)) {
+    return { subject, violations };
+  }
+
+  const description = checkFormat(stripStylePrefix(subject), options.format, violations);
+
+  const mood = description ? detectMood(description) : null;
+  if (mood && mood !== 'imperative') {
+    const [word] = description.split(' ');
+    const [fixed] = toMood(description, 'imperative').split(' ');
+    violations.push({ rule: 'imperative', message: `Use the imperative mood: "${fixed}" instead of "${word}"` });
+  }
+
+  return { subject, violations };
+}
+
+/**
+ * Strip what git adds to a message file: comment lines and everything below the scissors line
+ * of "git commit --verbose"
+ */
+export function cleanMessage(raw: string): string {
+  const scissors = raw.search(/^# -+ >8 -+$/m);
+  const text = scissors === -1 ? raw : raw.slice(0, scissors);
+
+  return text
+    .split('\n')
+    .filter(line => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Check the subject's prefix for a format
+ * @returns The description that follows the prefix
+ */
+function checkFormat(subject: string, format: MessageFormat, violations: LintViolation[]): string {
+  if (format === 'plain') {
+    return subject;
+  }
+
+  if (format === 'conventional') {
+    const match = /^([\w-]+)(?:\(([^)]*)\))?(!)?: (.*)$/.exec(subject);
+
+    if (!match) {
+      violations.push({ rule: 'format', message: 'Subject must look like "type(scope): description", e.g. "feat(api): add login"' });
+      return '';
+    }
+
+    const [, type, scope, , description] = match;
+
+    if (!CONVENTIONAL_TYPE_NAMES.includes(type)) {
+      const intent = normalizeIntent(type);
+      violations.push({
+        rule: 'format',
+        message: intent
+          ? `Use the type "${CONVENTIONAL_TYPES[intent]}" instead of "${type}"`
+          : `Unknown type "${type}", use one of: ${CONVENTIONAL_TYPE_NAMES.join(', ')}`
+      });
+    }
+
+    if (scope !== undefined && !scope.trim()) {
+      violations.push({ rule: 'format', message: 'The scope is empty, drop the parentheses or name a scope' });
+    }
+
+    if (!description.trim()) {
+      violations.push({ rule: 'format', message: 'The description after the type is empty' });
+    }
+
+    return description.trim();
+  }
+
+  const match = /^([^:]+): (.*)$/.exec(subject);
+  const intent = match?.[1];
+
+  if (!match || !intent) {
+    violations.push({ rule: 'format', message: `Subject must start with an intent, e.g. "Feature: add login" (${INTENT_NAMES.join(', ')})` });
+    return '';
+  }
+
+  if (!INTENT_NAMES.includes(intent)) {
+    const normalized = normalizeIntent(intent);
+    violations.push({
+      rule: 'format',
+      message: normalized
+        ? `Use the intent "${normalized}" instead of "${intent}"`
+        : `Unknown intent "${intent}", use one of: ${INTENT_NAMES.join(', ')}`
+    });
+  }
+
+  if (!match[2].trim()) {
+    violations.push({ rule: 'format', message: 'The message after the intent is empty' });
+  }
+
+  return match[2].trim();
+}
@@ -1,394 +1,244 @@
 import axios, { AxiosError } from 'axios';
-import crypto from 'crypto';
-import { commitCache } from '../utils/cache.js';
-
-export interface CommitSuggestion {
-  intent: string;
-  message: string;
-}
-
-interface DiffAnalysis {
-  hasBugFix: boolean;
-  hasTestFix: boolean;
-  hasNewFunction: boolean;
-  hasNewClass: boolean;
-  hasNewEndpoint: boolean;
-  hasNewComponent: boolean;
-  hasRefactor: boolean;
-  hasRename: boolean;
-  hasMovedCode: boolean;
-  hasDocsChange: boolean;
-  hasCommentChange: boolean;
-  hasTestChange: boolean;
-  hasDeletions: boolean;
-  hasStyleChange: boolean;
-  hasWhitespaceOnly: boolean;
-  hasConfigChange: boolean;
-  hasDependencyChange: boolean;
-  additions: number;
-  deletions: number;
-  hasChanges: boolean;
+import { commitCache, CacheKey } from '../utils/cache.js';
+import { getConfig, MessageFormat } from '../utils/config.js';
+import { getRepoRoot, getHeadCommit } from '../utils/git.js';
+import { parseDiff } from '../utils/diff.js';
+import { generateFallbackCommit, summarizeDiff, ChangeSummary } from './heuristics.js';
+import { budgetDiff, describeOmitted } from './budget.js';
+import { redactSecrets, describeRedactions } from './redact.js';
+import {
+  createProvider,
+  CommitSuggestion,
+  ProviderOptions,
+  RemoteProvider
+} from './providers/index.js';
+
+export type { CommitSuggestion } from './providers/index.js';
+
+export interface GenerateOptions extends ProviderOptions {
+  provider?: string;
+  summary?: ChangeSummary; // counted from the diff when not given
+  skipCache?: boolean;
+  record?: boolean; // false keeps the result out of the cache, and so out of history
+  remote?: boolean;
+  format?: MessageFormat; // part of the cache key
 }
 
-interface ChangeSummary {
-  total?: number;
-  renamed?: number;
-}
+export async function generateCommitMessage(diff: string, options: GenerateOptions = {}): Promise<CommitSuggestion> {
+  const config = getConfig();
+  const remote = options.remote ?? config.remote;
+  const requested = options.provider ?? config.provider;
 
-const API_ENDPOINT = 'http://commitintentdetector.runasp.net/api/Commit/analyze';
+  // With remote access disabled nothing may leave the machine, so only the offline engine is allowed
+  if (!remote && requested !== 'heuristic' && options.provider) {
+    console.warn(`⚠  Remote access is disabled, using the offline heuristic engine instead of "${requested}".`);
+  }
 
-export async function generateCommitMessage(diff: string, summary?: ChangeSummary): Promise<CommitSuggestion> {
-  const diffHash = crypto.createHash('sha1').update(diff).digest('hex');
+  const model = options.model ?? config.model;
+  const provider = createProvider(remote ? requested : 'heuristic', {
+    endpoint: options.endpoint ?? config.endpoint,
+    model,
+    apiKey: options.apiKey ?? config.apiKey,
+    timeout: options.timeout ?? config.timeout,
+    maxRetries: options.maxRetries ?? config.maxRetries
+  });
+  const cacheKey: CacheKey = {
+    repo: cacheRepo(),
+    provider: provider.name,
+    ...(provider.kind === 'remote' && model ? { model } : {}),
+    format: options.format ?? config.format,
+    diff
+  };
 
-  // Check cache first
-  const cached = commitCache.get(diffHash);
+  // Check cache first, unless the caller asked for a fresh suggestion
+  const cached = options.skipCache ? null : commitCache.get(cacheKey);
   if (cached) {
     return cached;
   }
 
-  const maxRetries = 3;
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await axios.post(
-        API_ENDPOINT,
-        { diff },
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          timeout: 10000
-        }
-      );
-
-      // API returns: { intent: "Intent: Feature\nMessage: Add subtraction support function" }
-      const data = response.data;
-      
-      if (!data || !data.intent) {
-        throw new Error('Invalid response format from API');
-      }
-
-      const result = parseResponse(data.intent);
-      
-      // Cache the result
-      commitCache.set(diffHash, result.intent, result.message);
-
-      return result;
-
-    } catch (error) {
-      lastError = error as Error;
-
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError;
-        
-        // Handle rate limiting (429)
-        if (axiosError.response?.status === 429) {
-          if (attempt < maxRetries) {
-            await sleep(500 * Math.pow(2, attempt));
-            continue;
-          }
-          break;
-        }
-
-        // Handle server errors (5xx) - retry
-        if (axiosError.response?.status && axiosError.response.status >= 500) {
-          if (attempt < maxRetries) {
-            await sleep(500 * Math.pow(2, attempt));
-            continue;
-          }
-        }
-
-        // Handle network errors - retry
-        if (axiosError.code === 'ECONNREFUSED' || axiosError.code === 'ETIMEDOUT') {
-          if (attempt < maxRetries) {
-            await sleep(500 * Math.pow(2, attempt));
-            continue;
-          }
-        }
-      }
-
-      // Don't retry on client errors (4xx) except 429
-      if (axios.isAxiosError(error) && error.response?.status && error.response.status < 500 && error.response.status !== 429) {
-        break;
-      }
+  const store = (key: CacheKey, result: CommitSuggestion): void => {
+    if (options.record !== false) {
+      commitCache.set(key, result);
+    }
+  };
 
-      // Retry on other errors
-      if (attempt < maxRetries) {
-        await sleep(500 * Math.pow(2, attempt));
-        continue;
-      }
+  // Mask secrets and drop sensitive files before anything is sent to a remote provider
+  let outgoing = diff;
+  if (provider.kind === 'remote') {
+    const redaction = redactSecrets(diff);
+    const summary = describeRedactions(redaction);
+    if (summary) {
+      console.warn(`🔒 Redacted before sending: ${summary}`);
     }
+    outgoing = redaction.diff;
   }
 
-  console.warn('⚠  AI service unavailable, using fallback commit message.');
-  return generateFallbackCommit(diff, summary);
-}
+  // File counts cover the whole diff, including what the budget leaves out
+  const changes = options.summary ?? summarizeDiff(parseDiff(diff));
 
-function parseResponse(response: string): CommitSuggestion {
-  const lines = response.trim().split('\n');
-  
-  let intent = '';
-  let message = '';
-
-  for (const line of lines) {
-    if (line.startsWith('Intent:')) {
-      intent = line.replace('Intent:', '').trim();
-    } else if (line.startsWith('Message:')) {
-      message = line.replace('Message:', '').trim();
-    }
+  // The offline engine reads the whole diff; only requests are trimmed to the budget
+  if (provider.kind === 'local') {
+    const result = provider.generate(outgoing, changes);
+    store(cacheKey, result);
+    return result;
   }
 
-  if (!intent || !message) {
-    throw new Error('Invalid response format from LLM');
+  // Leave out lockfiles, generated files and whitespace noise, and chunk what is still too big
+  const budget = budgetDiff(outgoing, config.maxDiffSize);
+  if (budget.omitted.length > 0) {
+    console.warn(`⚠  Left out of the analysis: ${describeOmitted(budget.omitted)}`);
   }
 
-  if (message.length > 70) {
-    message = message.substring(0, 67) + '...';
+  // Stored as the offline engine's answer, so the provider is asked again next time
+  const fallback = (): CommitSuggestion => {
+    const result = generateFallbackCommit(outgoing, changes);
+    store({ ...cacheKey, provider: 'heuristic', model: undefined }, result);
+    return result;
+  };
+
+  // Nothing is left to send when, for example, only whitespace changed
+  if (!budget.diff.trim()) {
+    return fallback();
   }
 
-  return { intent, message };
+  try {
+    const result = await requestChunks(provider, budget.chunks);
+
+    // Cache the result
+    store(cacheKey, result);
+
+    return result;
+  } catch {
+    console.warn('⚠  AI service unavailable, using fallback commit message.');
+    return fallback();
+  }
 }
 
-function extractFilesFromDiff(diff: string): string[] {
-  const files = new Set<string>();
-  const regex = /^diff --git a\/(.+?) b\/(.+)$/gm;
-  let match;
-  while ((match = regex.exec(diff))) {
-    files.add(match[2]);
+/**
+ * Mark the suggestion generated for a diff as committed, so the history shows the final message.
+ * Call it right after the commit, while HEAD still points to it.
+ * @param diff - The diff the suggestion was generated for
+ * @param message - The message that was committed, after any edits
+ */
+export function recordCommit(diff: string, message: string): void {
+  const entry = commitCache.findByDiff(cacheRepo(), diff);
+  const commit = getHeadCommit();
+
+  if (entry && commit) {
+    commitCache.markCommitted(entry.hash, { commit, message, timestamp: Date.now() });
   }
-  return [...files];
 }
 
-function isTrivialWhitespace(lines: string[]): boolean {
-  return lines.every(l =>
-    /^[+-]\s*$/.test(l) ||
-    /^[+-]\s*[{}();,]*\s*$/.test(l)
-  );
+/**
+ * The repository a suggestion belongs to in the cache
+ */
+function cacheRepo(): string {
+  return getRepoRoot() ?? process.cwd();
 }
 
 /**
- * Analyze the diff content for patterns
- * @param diff - The git diff string
- * @param summary - Optional summary with file change counts
- * @returns Analysis results with detected patterns
+ * Request a suggestion for each chunk of a diff, one chunk at a time, and merge the results
+ * @param provider - The remote provider to call
+ * @param chunks - Diff chunks that each fit in a single request
+ * @returns One suggestion for the whole diff
  */
-function analyzeDiff(diff: string, summary: ChangeSummary = {}): DiffAnalysis {
-  const lines = diff.split('\n');
-  const lowerDiff = diff.toLowerCase();
-  const files = extractFilesFromDiff(diff);
+async function requestChunks(provider: RemoteProvider, chunks: string[]): Promise<CommitSuggestion> {
+  if (chunks.length === 1) {
+    return requestWithRetry(provider, chunks[0]);
+  }
 
-  const addedLines = lines.filter(l => l.startsWith('+') && !l.startsWith('+++'));
-  const removedLines = lines.filter(l => l.startsWith('-') && !l.startsWith('---'));
+  console.warn(`⚠  Diff is too large for one request, sending it in ${chunks.length} parts.`);
 
-  const additions = addedLines.length;
-  const deletions = removedLines.length;
+  const partials: { suggestion: CommitSuggestion; weight: number }[] = [];
+  for (const chunk of chunks) {
+    partials.push({ suggestion: await requestWithRetry(provider, chunk), weight: chunk.length });
+  }
 
-  const matchesAny = (patterns: RegExp[], text: string): boolean =>
-    patterns.some(p => p.test(text));
+  return mergeSuggestions(partials);
+}
 
-  const patterns = {
-    bugFix: [/\b(fix(e[ds])?|bug|error|issue|crash|incorrect|fault)\b/i],
-    testFix: [/\b(fix|repair|correct).*(test|spec)\b/i],
-    refactor: [/\b(refactor|cleanup|simplify|restructure|reorganize)\b/i],
-    style: [/\b(format|lint|prettier|indent)\b/i]
-  };
+/**
+ * Combine partial suggestions: the intent with the most diff behind it wins, the largest
+ * part provides the subject, and the other parts are listed in the body
+ */
+function mergeSuggestions(partials: { suggestion: CommitSuggestion; weight: number }[]): CommitSuggestion {
+  const weights = new Map<string, number>();
+  partials.forEach(p => weights.set(p.suggestion.intent, (weights.get(p.suggestion.intent) ?? 0) + p.weight));
 
-  const hasDocsChange = files.some(f =>
-    /\.(md|rst|txt)$/i.test(f) || /readme/i.test(f)
-  );
-
-  const hasTestChange = files.some(f =>
-    /(__tests__|\.test\.|\.spec\.)/i.test(f)
-  );
-
-  const hasConfigChange = files.some(f =>
-    /\.(json|ya?ml|env|toml)$/i.test(f)
-  );
-
-  const hasDependencyChange = files.some(f =>
-    /(package(-lock)?\.json|requirements\.txt|go\.mod|pom\.xml)/i.test(f)
-  );
-
-  const hasNewFunction =
-    addedLines.some(l =>
-      /^\+\s*(export\s+)?(async\s+)?function\s+\w+/.test(l) ||
-      /^\+\s*(export\s+)?const\s+\w+\s*=\s*(async\s*)?\(/.test(l)
-    );
-
-  const hasNewClass =
-    addedLines.some(l =>
-      /^\+\s*(export\s+)?class\s+\w+/.test(l)
-    );
-
-  const hasNewEndpoint =
-    addedLines.some(l =>
-      /\b(app|router)\.(get|post|put|delete|patch)\b/i.test(l)
-    ) ||
-    /^\+\s*@(Get|Post|Put|Delete|Patch)\b/m.test(diff);
-
-  const hasNewComponent =
-    files.some(f => /\.(jsx|tsx)$/i.test(f)) &&
-    addedLines.some(l =>
-      /^\+\s*(export\s+)?(function|const)\s+[A-Z]\w*/.test(l)
-    );
-
-  const hasWhitespaceOnly =
-    additions + deletions > 0 &&
-    isTrivialWhitespace([...addedLines, ...removedLines]);
+  const intent = [...weights.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const ordered = [...partials].sort((a, b) => b.weight - a.weight);
+  const main = ordered.find(p => p.suggestion.intent === intent) ?? ordered[0];
 
-  return {
-    hasBugFix: matchesAny(patterns.bugFix, diff),
-    hasTestFix: hasTestChange && matchesAny(patterns.testFix, diff),
+  const body = ordered
+    .filter(p => p !== main)
+    .map(p => `- ${p.suggestion.message}`)
+    .concat(main.suggestion.body ? [main.suggestion.body] : [])
+    .join('\n');
 
-    hasNewFunction,
-    hasNewClass,
-    hasNewEndpoint,
-    hasNewComponent,
+  return {
+    intent,
+    message: main.suggestion.message,
+    ...(body ? { body } : {}),
+    ...(partials.some(p => p.suggestion.breaking) ? { breaking: true } : {})
+  };
+}
 
-    hasRefactor: matchesAny(patterns.refactor, diff),
+/**
+ * Send a provider request, retrying with exponential backoff according to its retry policy
+ * @param provider - The remote provider to call
+ * @param diff - The git diff string
+ * @returns The parsed suggestion
+ * @throws The last error once all attempts are exhausted or the error is not retryable
+ */
+async function requestWithRetry(provider: RemoteProvider, diff: string): Promise<CommitSuggestion> {
+  const { maxRetries, baseDelay, timeout } = provider.retry;
+  const shouldRetry = provider.retry.shouldRetry ?? isRetryableError;
+  let lastError: unknown = new Error('No attempts were made');
 
-    hasRename: (summary.renamed ?? 0) > 0,
-    hasMovedCode: (summary.renamed ?? 0) > 0 && additions > 0 && deletions > 0,
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      const request = provider.buildRequest(diff);
+      const response = await axios.post(request.url, request.body, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...request.headers
+        },
+        timeout
+      });
 
-    hasDocsChange,
-    hasCommentChange: addedLines.some(l => /^\+\s*(\/\/|\/\*|\*)/.test(l)),
-    hasTestChange,
+      return provider.parseResponse(response.data);
 
-    hasDeletions: deletions > 0,
-    hasStyleChange: matchesAny(patterns.style, diff),
+    } catch (error) {
+      lastError = error;
 
-    hasWhitespaceOnly,
-    hasConfigChange,
-    hasDependencyChange,
+      if (!shouldRetry(error) || attempt >= maxRetries) {
+        break;
+      }
 
-    additions,
-    deletions,
-    hasChanges: additions + deletions > 0
-  };
-}
+      await sleep(baseDelay * Math.pow(2, attempt));
+    }
+  }
 
-/**
- * Determine the commit intent type based on analysis
- * @param analysis - Analysis results from analyzeDiff
- * @param summary - Changes summary
- * @returns The intent type string
- */
-function determineIntent(analysis: DiffAnalysis, summary: ChangeSummary = {}): string {
-  if (!analysis.hasChanges) return 'Chore';
-
-  if (analysis.hasBugFix || analysis.hasTestFix) return 'Bug Fix';
-  if (analysis.hasTestChange && !analysis.hasBugFix) return 'Test';
-  if (analysis.hasDocsChange) return 'Documentation';
-
-  if (
-    analysis.hasRefactor ||
-    analysis.hasMovedCode ||
-    (analysis.deletions > analysis.additions * 2)
-  )
-    return 'Refactor';
-
-  if (
-    analysis.hasNewFunction ||
-    analysis.hasNewClass ||
-    analysis.hasNewComponent ||
-    analysis.hasNewEndpoint
-  )
-    return 'Feature';
-
-  if (analysis.hasDependencyChange || analysis.hasConfigChange) return 'Chore';
-  if (analysis.hasStyleChange || analysis.hasWhitespaceOnly) return 'Style';
-
-  return 'Update';
+  throw lastError;
 }
 
 /**
- * Generate a descriptive commit message based on analysis
- * @param analysis - Analysis results from analyzeDiff
- * @param intent - The determined intent type
- * @returns A commit message string
+ * Default retry rule: retry rate limiting (429), server errors (5xx),
+ * network failures and invalid responses, but not other client errors (4xx)
  */
-function generateMessage(analysis: DiffAnalysis, intent: string, summary: ChangeSummary = {}): string {
-  const fileCount = summary.total;
-  const hasFileCount = typeof fileCount === 'number' && fileCount > 0;
-  const fileWord = fileCount === 1 ? 'file' : 'files';
-
-  switch (intent) {
-    case 'Bug Fix':
-      return analysis.hasTestFix
-        ? hasFileCount
-          ? `fix failing tests in ${fileCount} ${fileWord}`
-          : 'fix failing tests'
-        : hasFileCount
-          ? `fix issues in ${fileCount} ${fileWord}`
-          : 'fix issues';
-
-    case 'Feature':
-      if (analysis.hasNewEndpoint) return 'add new API endpoints';
-      if (analysis.hasNewComponent) return 'add new components';
-      if (analysis.hasNewClass || analysis.hasNewFunction)
-        return hasFileCount
-          ? `add new functionality to ${fileCount} ${fileWord}`
-          : 'add new functionality';
-      return hasFileCount
-        ? `implement new features in ${fileCount} ${fileWord}`
-        : 'implement new features';
-
-    case 'Refactor':
-      if (analysis.hasMovedCode)
-        return hasFileCount
-          ? `restructure code in ${fileCount} ${fileWord}`
-          : 'restructure code';
-      if (analysis.deletions > analysis.additions * 2)
-        return hasFileCount
-          ? `remove unused code from ${fileCount} ${fileWord}`
-          : 'remove unused code';
-      return hasFileCount
-        ? `refactor code in ${fileCount} ${fileWord}`
-        : 'refactor code';
-
-    case 'Test':
-      return hasFileCount
-        ? `add/update tests in ${fileCount} ${fileWord}`
-        : 'add/update tests';
-
-    case 'Chore':
-      if (analysis.hasDependencyChange) return 'update dependencies';
-      if (analysis.hasConfigChange) return 'update configuration files';
-      return 'update project configuration';
-
-    case 'Style':
-      return hasFileCount
-        ? `format and style ${fileCount} ${fileWord}`
-        : 'format and style code';
-
-    case 'Documentation':
-      return hasFileCount
-        ? fileCount === 1
-          ? 'update documentation'
-          : `update documentation in ${fileCount} ${fileWord}`
-        : 'update documentation';
-
-    default:
-      return hasFileCount
-        ? `update ${fileCount} ${fileWord}`
-        : 'update code';
+function isRetryableError(error: unknown): boolean {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    const status = axiosError.response?.status;
+
+    if (status === 429) return true;
+    if (status && status >= 500) return true;
+    if (status && status < 500) return false;
   }
-}
-
-function generateFallbackCommit(diff: string, summary?: ChangeSummary): CommitSuggestion {
-  const diffHash = crypto.createHash('sha1').update(diff).digest('hex');
 
-  const analysis = analyzeDiff(diff, summary);
-  const intent = determineIntent(analysis, summary);
-  const message = generateMessage(analysis, intent, summary);
-
-  const result = { intent, message };
-  commitCache.set(diffHash, intent, message);
-
-  return result;
+  return true;
 }
 
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
+}
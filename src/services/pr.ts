@@ -0,0 +1,97 @@
+import { upperFirst } from '../utils/text.js';
+import { analyzeDiff } from './heuristics.js';
+import { buildChangelog, ChangelogEntry } from './changelog.js';
+import type { CommitSuggestion } from './providers/types.js';
+
+export interface PullRequest {
+  title: string;
+  body: string;
+}
+
+export interface PullRequestInput {
+  base: string;
+  title: string;
+  suggestion: CommitSuggestion;        // generated for the whole branch diff
+  commits: { hash: string; message: string }[]; // newest first
+  diff: string;
+}
+
+const MAX_AREAS = 8;
+
+/**
+ * Build the Markdown description of a branch: summary, changes grouped by intent, touched
+ * areas and what the branch does to the tests
+ */
+export function buildPullRequest(input: PullRequestInput): PullRequest {
+  const analysis = analyzeDiff(input.diff);
+  const changelog = buildChangelog(input.commits, { version: 'Unreleased', from: input.base, to: 'HEAD' });
+  const sections: string[] = [];
+
+  const summary = [upperFirst(input.suggestion.message.replace(/\.$/, '')) + '.'];
+  if (input.suggestion.body) {
+    summary.push('', input.suggestion.body);
+  }
+  sections.push(['## Summary', '', ...summary].join('\n'));
+
+  const breaking = [
+    ...changelog.breaking.map(formatEntry),
+    ...analysis.details.breakingChanges.map(change => `- ${upperFirst(change)}`)
+  ];
+  if (breaking.length > 0) {
+    sections.push(['## ⚠ Breaking Changes', '', ...breaking].join('\n'));
+  }
+
+  const changes = changelog.sections.flatMap(section => [`### ${section.title}`, '', ...section.entries.map(formatEntry), '']);
+  sections.push(['## Changes', '', ...changes].join('\n').trimEnd());
+
+  const paths = Object.values(analysis.details.files).flat();
+  sections.push(['## Touched Areas', '', ...touchedAreas(paths)].join('\n'));
+
+  sections.push(['## Testing', '', ...describeTesting(analysis.details.files.test, analysis.symbols.addedTests)].join('\n'));
+
+  return {
+    title: input.title,
+    body: sections.join('\n\n') + '\n'
+  };
+}
+
+function formatEntry(entry: ChangelogEntry): string {
+  return `- ${entry.scope ? `**${entry.scope}:** ` : ''}${entry.description} (${entry.shortHash})`;
+}
+
+/**
+ * Group changed files by directory, two levels deep, busiest first
+ */
+function touchedAreas(paths: string[]): string[] {
+  const counts = new Map<string, number>();
+
+  for (const path of paths) {
+    const parts = path.split('/');
+    const area = parts.length === 1 ? path : parts.slice(0, Math.min(2, parts.length - 1)).join('/') + '/';
+    counts.set(area, (counts.get(area) ?? 0) + 1);
+  }
+
+  const areas = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const lines = areas.slice(0, MAX_AREAS).map(([area, count]) =>
+    `- \`${area}\`${area.endsWith('/') ? ` (${count} file${count !== 1 ? 's' : ''})` : ''}`
+  );
+
+  if (areas.length > MAX_AREAS) {
+    lines.push(`- and ${areas.length - MAX_AREAS} more`);
+  }
+
+  return lines;
+}
+
+function describeTesting(testFiles: string[], addedTests: string[]): string[] {
+  if (testFiles.length === 0 && addedTests.length === 0) {
+    return ['No test files changed in this branch.'];
+  }
+
+  const lines = testFiles.map(file => `- \`${file}\``);
+  if (addedTests.length > 0) {
+    lines.push('', 'New tests:', ...addedTests.map(name => `- ${name}`));
+  }
+
+  return ['Tests changed in this branch:', '', ...lines];
+}
@@ -0,0 +1,39 @@
+import { parseIntentMessage } from './prompt.js';
+import type { ProviderOptions, RemoteProvider } from './types.js';
+
+const DEFAULT_ENDPOINT = 'http://commitintentdetector.runasp.net/api/Commit/analyze';
+
+/**
+ * The hosted CommiTect intent detector.
+ * Request: { diff }  Response: { intent: "Intent: Feature\nMessage: Add subtraction support function" }
+ */
+export function createDetectorProvider(options: ProviderOptions = {}): RemoteProvider {
+  const endpoint = options.endpoint ?? DEFAULT_ENDPOINT;
+
+  return {
+    kind: 'remote',
+    name: 'detector',
+    retry: {
+      maxRetries: options.maxRetries ?? 3,
+      baseDelay: 500,
+      timeout: options.timeout ?? 10000
+    },
+
+    buildRequest(diff) {
+      return {
+        url: endpoint,
+        body: { diff }
+      };
+    },
+
+    parseResponse(data) {
+      const intent = (data as { intent?: unknown } | null)?.intent;
+
+      if (typeof intent !== 'string' || !intent) {
+        throw new Error('Invalid response format from API');
+      }
+
+      return parseIntentMessage(intent);
+    }
+  };
+}
@@ -0,0 +1,13 @@
+import { generateFallbackCommit } from '../heuristics.js';
+import type { LocalProvider } from './types.js';
+
+/**
+ * The offline rule-based engine, also used as the fallback for remote providers
+ */
+export function createHeuristicProvider(): LocalProvider {
+  return {
+    kind: 'local',
+    name: 'heuristic',
+    generate: generateFallbackCommit
+  };
+}
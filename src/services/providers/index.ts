@@ -0,0 +1,44 @@
+import { createDetectorProvider } from './detector.js';
+import { createOpenAIProvider } from './openai.js';
+import { createOllamaProvider } from './ollama.js';
+import { createHeuristicProvider } from './heuristic.js';
+import type { Provider, ProviderOptions } from './types.js';
+
+export type {
+  CommitSuggestion,
+  LocalProvider,
+  Provider,
+  ProviderOptions,
+  ProviderRequest,
+  RemoteProvider,
+  RetryPolicy
+} from './types.js';
+
+const PROVIDERS: Record<string, (options: ProviderOptions) => Provider> = {
+  detector: createDetectorProvider,
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+  heuristic: createHeuristicProvider
+};
+
+/**
+ * Get the names of all registered providers
+ */
+export function listProviders(): string[] {
+  return Object.keys(PROVIDERS);
+}
+
+/**
+ * Create a provider by name
+ * @param name - Registered provider name
+ * @param options - Endpoint, model and credentials overrides
+ */
+export function createProvider(name: string, options: ProviderOptions = {}): Provider {
+  const factory = PROVIDERS[name];
+
+  if (!factory) {
+    throw new Error(`Unknown provider "${name}". Available providers: ${listProviders().join(', ')}`);
+  }
+
+  return factory(options);
+}
@@ -0,0 +1,51 @@
+import axios from 'axios';
+import { SYSTEM_PROMPT, parseIntentMessage } from './prompt.js';
+import type { ProviderOptions, RemoteProvider } from './types.js';
+
+const DEFAULT_ENDPOINT = 'http://localhost:11434';
+const DEFAULT_MODEL = 'llama3';
+
+/**
+ * A local Ollama server
+ */
+export function createOllamaProvider(options: ProviderOptions = {}): RemoteProvider {
+  const endpoint = (options.endpoint ?? DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const model = options.model ?? DEFAULT_MODEL;
+
+  return {
+    kind: 'remote',
+    name: 'ollama',
+    retry: {
+      maxRetries: options.maxRetries ?? 2,
+      baseDelay: 500,
+      // Local models can take a while to load on the first request
+      timeout: options.timeout ?? 60000,
+      // Nobody is listening, retrying won't start the server
+      shouldRetry: error => !(axios.isAxiosError(error) && error.code === 'ECONNREFUSED')
+    },
+
+    buildRequest(diff) {
+      return {
+        url: `${endpoint}/api/chat`,
+        body: {
+          model,
+          stream: false,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: diff }
+          ]
+        }
+      };
+    },
+
+    parseResponse(data) {
+      const content = (data as { message?: { content?: unknown } } | null)?.message?.content;
+
+      if (typeof content !== 'string' || !content) {
+        throw new Error('Invalid response format from Ollama');
+      }
+
+      return parseIntentMessage(content);
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { SYSTEM_PROMPT, parseIntentMessage } from './prompt.js';
+import type { ProviderOptions, RemoteProvider } from './types.js';
+
+const DEFAULT_ENDPOINT = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (OpenAI, Azure proxies, LM Studio, vLLM, ...)
+ */
+export function createOpenAIProvider(options: ProviderOptions = {}): RemoteProvider {
+  const endpoint = (options.endpoint ?? DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const model = options.model ?? DEFAULT_MODEL;
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+
+  return {
+    kind: 'remote',
+    name: 'openai',
+    retry: {
+      maxRetries: options.maxRetries ?? 3,
+      baseDelay: 1000,
+      timeout: options.timeout ?? 30000
+    },
+
+    buildRequest(diff) {
+      return {
+        url: `${endpoint}/chat/completions`,
+        body: {
+          model,
+          temperature: 0.2,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: diff }
+          ]
+        },
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined
+      };
+    },
+
+    parseResponse(data) {
+      const content = (data as { choices?: { message?: { content?: unknown } }[] } | null)
+        ?.choices?.[0]?.message?.content;
+
+      if (typeof content !== 'string' || !content) {
+        throw new Error('Invalid response format from API');
+      }
+
+      return parseIntentMessage(content);
+    }
+  };
+}
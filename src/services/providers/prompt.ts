@@ -0,0 +1,55 @@
+import type { CommitSuggestion } from './types.js';
+
+export const SYSTEM_PROMPT = [
+  'You are a git commit message assistant.',
+  'Read the git diff supplied by the user and reply in this format:',
+  'Intent: <one of Feature, Bug Fix, Refactor, Documentation, Style, Test, Chore>',
+  'Message: <imperative summary of the change, under 70 characters>',
+  'Breaking: yes   (only if the change breaks backwards compatibility)',
+  'Body:',
+  '- <file path>: <what changed in that file>',
+  'Give one body bullet per meaningful file. Leave out the Body section for trivial changes.',
+  'Do not add any other text.'
+].join('\n');
+
+/**
+ * Parse an "Intent: ...\nMessage: ...\nBody:\n..." reply into a suggestion
+ * @param response - Raw text returned by the model
+ * @returns The parsed intent and message
+ */
+export function parseIntentMessage(response: string): CommitSuggestion {
+  const lines = response.trim().split('\n');
+
+  let intent = '';
+  let message = '';
+  let breaking = false;
+  let body: string[] | null = null;
+
+  for (const line of lines) {
+    // Everything after "Body:" belongs to the body
+    if (body) {
+      body.push(line.trimEnd());
+    } else if (line.startsWith('Body:')) {
+      body = [line.replace('Body:', '').trim()].filter(Boolean);
+    } else if (line.startsWith('Intent:')) {
+      intent = line.replace('Intent:', '').trim();
+    } else if (line.startsWith('Message:')) {
+      message = line.replace('Message:', '').trim();
+    } else if (line.startsWith('Breaking:')) {
+      breaking = /^(yes|true)$/i.test(line.replace('Breaking:', '').trim());
+    }
+  }
+
+  if (!intent || !message) {
+    throw new Error('Invalid response format from LLM');
+  }
+
+  const bodyText = body?.join('\n').trim();
+
+  return {
+    intent,
+    message,
+    ...(bodyText ? { body: bodyText } : {}),
+    ...(breaking ? { breaking } : {})
+  };
+}
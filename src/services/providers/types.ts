@@ -0,0 +1,53 @@
+import type { ChangeSummary } from '../heuristics.js';
+
+export interface CommitSuggestion {
+  intent: string;
+  message: string;
+  body?: string;
+  breaking?: boolean;
+}
+
+export interface ProviderOptions {
+  endpoint?: string;
+  model?: string;
+  apiKey?: string;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number; // milliseconds, doubled on every attempt
+  timeout: number;   // per-request timeout in milliseconds
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export interface ProviderRequest {
+  url: string;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A provider that talks to a remote service over HTTP.
+ * The shared retry loop in llm.ts sends the request it builds and hands
+ * the response body back to it for parsing.
+ */
+export interface RemoteProvider {
+  kind: 'remote';
+  name: string;
+  retry: RetryPolicy;
+  buildRequest(diff: string): ProviderRequest;
+  parseResponse(data: unknown): CommitSuggestion;
+}
+
+/**
+ * A provider that generates suggestions in-process, without network access
+ */
+export interface LocalProvider {
+  kind: 'local';
+  name: string;
+  generate(diff: string, summary?: ChangeSummary): CommitSuggestion;
+}
+
+export type Provider = RemoteProvider | LocalProvider;
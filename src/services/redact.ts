@@ -0,0 +1,156 @@
+import { splitDiffByFile } from '../utils/diff.js';
+
+export interface Redaction {
+  path: string;
+  kind: string;
+}
+
+export interface RedactionResult {
+  diff: string;
+  redactions: Redaction[];
+  droppedFiles: string[];
+}
+
+// Files that are never sent anywhere, whatever their content
+const SENSITIVE_FILES = [
+  /(^|\/)\.env(\.[^/]*)?$/i,
+  /\.(pem|key|p12|pfx|jks|keystore|kdbx)$/i,
+  /(^|\/)id_(rsa|dsa|ecdsa|ed25519)(\.pub)?$/i,
+  /(^|\/)\.(npmrc|pypirc|netrc)$/i,
+  /(^|\/)credentials(\.json)?$/i
+];
+
+const SECRET_PATTERNS: { kind: string; pattern: RegExp }[] = [
+  { kind: 'AWS access key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { kind: 'API key', pattern: /\bsk-[A-Za-z0-9_-]{20,}\b/g },
+  { kind: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'JWT', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\b/g },
+  { kind: 'URL credentials', pattern: /(?<=[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]+(?=@)/gi }
+];
+
+const SECRET_KEY = String.raw`[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret)[\w.-]*`;
+
+// Assignments whose value is masked. Groups: key, separator, quote, value.
+const ASSIGNMENT_PATTERNS = [
+  // password=hunter2, API_KEY="abc", token = 'abc'
+  new RegExp(String.raw`\b(${SECRET_KEY})(["']?\s*=\s*)(["']?)([^\s"',;]{4,})\3`, 'gi'),
+  // "client_secret": "abc", password: 'abc'
+  new RegExp(String.raw`\b(${SECRET_KEY})(["']?\s*:\s*)(["'])([^"']{4,})\3`, 'gi'),
+  // YAML: password: hunter2
+  new RegExp(String.raw`^(\s*${SECRET_KEY})(\s*:\s+)()([^\s"'#]{4,})$`, 'gi')
+];
+
+const PRIVATE_KEY_START = /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/;
+
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_-]{24,}/g;
+const ENTROPY_THRESHOLD = 4.2;
+
+/**
+ * Mask credentials in a diff and drop sensitive files before it leaves the machine
+ * @param diff - The git diff string
+ * @returns The cleaned diff plus a record of what was masked or dropped
+ */
+export function redactSecrets(diff: string): RedactionResult {
+  const redactions: Redaction[] = [];
+  const droppedFiles: string[] = [];
+  const kept: string[] = [];
+
+  for (const file of splitDiffByFile(diff)) {
+    if (SENSITIVE_FILES.some(p => p.test(file.path))) {
+      droppedFiles.push(file.path);
+      continue;
+    }
+
+    kept.push(redactFile(file.path, file.diff, redactions));
+  }
+
+  return { diff: kept.join('\n'), redactions, droppedFiles };
+}
+
+/**
+ * Summarise a redaction pass, e.g. "2 secrets masked (JWT in src/auth.ts, ...); dropped .env"
+ * @returns The summary, or null if nothing was redacted
+ */
+export function describeRedactions(result: RedactionResult): string | null {
+  const parts: string[] = [];
+
+  if (result.redactions.length > 0) {
+    const details = [...new Set(result.redactions.map(r => `${r.kind} in ${r.path}`))].join(', ');
+    const count = result.redactions.length;
+    parts.push(`${count} secret${count !== 1 ? 's' : ''} masked (${details})`);
+  }
+
+  if (result.droppedFiles.length > 0) {
+    parts.push(`dropped ${result.droppedFiles.join(', ')}`);
+  }
+
+  return parts.length > 0 ? parts.join('; ') : null;
+}
+
+function redactFile(path: string, fileDiff: string, redactions: Redaction[]): string {
+  let inPrivateKey = false;
+
+  return fileDiff.split('\n').map(line => {
+    // Keep diff metadata ("diff --git", "+++ b/...", "@@ ...") untouched
+    if (!/^[+\- ]/.test(line) || line.startsWith('+++') || line.startsWith('---')) {
+      return line;
+    }
+
+    const prefix = line[0];
+    let text = line.slice(1);
+
+    if (inPrivateKey || PRIVATE_KEY_START.test(text)) {
+      if (!inPrivateKey) {
+        redactions.push({ path, kind: 'private key' });
+      }
+      inPrivateKey = !PRIVATE_KEY_END.test(text);
+      return `${prefix}[REDACTED private key]`;
+    }
+
+    for (const { kind, pattern } of SECRET_PATTERNS) {
+      text = text.replace(pattern, () => {
+        redactions.push({ path, kind });
+        return `[REDACTED ${kind}]`;
+      });
+    }
+
+    for (const pattern of ASSIGNMENT_PATTERNS) {
+      text = text.replace(pattern, (match, key: string, separator: string, quote: string, value: string) => {
+        if (value.startsWith('[REDACTED') || /^(true|false|null|undefined|none)$/i.test(value)) {
+          return match;
+        }
+        redactions.push({ path, kind: `${key.trim()} value` });
+        return `${key}${separator}${quote}[REDACTED]${quote}`;
+      });
+    }
+
+    text = text.replace(HIGH_ENTROPY_CANDIDATE, candidate => {
+      // Long identifiers and paths rarely mix in digits; keys and tokens almost always do
+      if (!/\d/.test(candidate) || !/[A-Za-z]/.test(candidate) || shannonEntropy(candidate) < ENTROPY_THRESHOLD) {
+        return candidate;
+      }
+      redactions.push({ path, kind: 'high-entropy string' });
+      return '[REDACTED high-entropy string]';
+    });
+
+    return prefix + text;
+  }).join('\n');
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
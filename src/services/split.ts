@@ -0,0 +1,68 @@
+import { splitDiffByFile, FileDiff } from '../utils/diff.js';
+import { analyzeDiff } from './heuristics.js';
+import { getPathScope } from './format.js';
+
+export type GroupKind = 'config' | 'code' | 'tests' | 'docs';
+
+export interface CommitGroup {
+  kind: GroupKind;
+  label: string;
+  files: FileDiff[];
+}
+
+// Commit order: dependencies first so later commits build, docs last
+const KIND_ORDER: GroupKind[] = ['config', 'code', 'tests', 'docs'];
+
+/**
+ * Group the files of a diff into logical commits: dependency and config changes,
+ * feature code per directory, tests, and documentation
+ * @param diff - The git diff string
+ * @returns Groups in the order they should be committed
+ */
+export function groupChanges(diff: string): CommitGroup[] {
+  const groups = new Map<string, CommitGroup>();
+
+  for (const file of splitDiffByFile(diff)) {
+    const analysis = analyzeDiff(file.diff);
+    let kind: GroupKind;
+    let label: string;
+
+    if (analysis.hasDocsChange) {
+      kind = 'docs';
+      label = 'documentation';
+    } else if (analysis.hasTestChange) {
+      kind = 'tests';
+      label = 'tests';
+    } else if (analysis.hasDependencyChange || analysis.hasConfigChange) {
+      kind = 'config';
+      label = 'dependencies and configuration';
+    } else {
+      const scope = getPathScope(file.path);
+      kind = 'code';
+      label = scope ?? 'root';
+    }
+
+    const key = `${kind}:${label}`;
+    const group = groups.get(key) ?? { kind, label, files: [] };
+    group.files.push(file);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.label.localeCompare(b.label)
+  );
+}
+
+/**
+ * Rebuild the diff text for a group
+ */
+export function groupDiff(group: CommitGroup): string {
+  return group.files.map(f => f.diff).join('\n');
+}
+
+/**
+ * Get every path git needs to stage for a group, including the old side of renames
+ */
+export function groupPaths(group: CommitGroup): string[] {
+  return group.files.flatMap(f => (f.oldPath ? [f.oldPath, f.path] : [f.path]));
+}
@@ -0,0 +1,362 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { getRepoRoot, getHeadCommit, getRecentSubjects, getCurrentBranch } from '../utils/git.js';
+import { getConfig, MessageFormat } from '../utils/config.js';
+import { upperFirst, lowerFirst } from '../utils/text.js';
+import { INTENTS, normalizeIntent, Intent } from './intents.js';
+
+export type Mood = 'imperative' | 'past' | 'present';
+export type EmojiStyle = 'unicode' | 'shortcode';
+
+export interface ScopeUsage {
+  name: string;
+  count: number;
+}
+
+export interface StyleProfile {
+  sampleSize: number;
+  format: MessageFormat;
+  capitalized: boolean;
+  mood: Mood;
+  trailingPeriod: boolean;
+  ticket?: {
+    format: string; // where the ticket goes, e.g. "[{ticket}] " or "{ticket}: "
+    keys: string[]; // project keys seen in history, e.g. ["ABC"]
+  };
+  emoji?: EmojiStyle;
+  scopes: ScopeUsage[]; // most used first
+  scopeRate: number;    // share of conventional subjects that have a scope
+  medianLength: number;
+  longLength: number;   // 90th percentile subject length
+}
+
+interface StoredProfile {
+  head: string;
+  sampleSize: number;
+  profile: StyleProfile | null;
+}
+
+const STYLE_DIR = join(homedir(), '.commitect');
+const STYLE_FILE = join(STYLE_DIR, 'styles.json');
+
+// Fewer commits than this say nothing reliable about a repository's habits
+const MIN_SAMPLES = 5;
+// Share of commits that must follow a convention before it is applied
+const MAJORITY = 0.5;
+const MAX_SCOPES = 10;
+
+const CONVENTIONAL_SUBJECT = /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(?:\(([^)]+)\))?!?:\s+/i;
+const INTENT_SUBJECT = new RegExp(`^(${[...INTENTS, 'Update'].join('|')}):\\s+`, 'i');
+const TICKET_FORMATS: { format: string; pattern: RegExp }[] = [
+  { format: '[{ticket}] ', pattern: /^\[([A-Z][A-Z0-9]+-\d+)\]\s+/ },
+  { format: '({ticket}) ', pattern: /^\(([A-Z][A-Z0-9]+-\d+)\)\s+/ },
+  { format: '{ticket}: ', pattern: /^([A-Z][A-Z0-9]+-\d+):\s+/ },
+  { format: '{ticket} ', pattern: /^([A-Z][A-Z0-9]+-\d+)\s+/ },
+  { format: '#{ticket} ', pattern: /^#(\d+)\s+/ }
+];
+const UNICODE_EMOJI = /^\p{Extended_Pictographic}️?\s+/u;
+const SHORTCODE_EMOJI = /^:[a-z0-9_+-]+:\s+/;
+
+// gitmoji for each intent
+const EMOJI: Record<Intent, [string, string]> = {
+  'Feature': ['✨', ':sparkles:'],
+  'Bug Fix': ['🐛', ':bug:'],
+  'Refactor': ['♻️', ':recycle:'],
+  'Documentation': ['📝', ':memo:'],
+  'Style': ['🎨', ':art:'],
+  'Test': ['✅', ':white_check_mark:'],
+  'Chore': ['🔧', ':wrench:']
+};
+
+// Verbs whose forms differ from the regular -ed / -s rules are listed explicitly
+const VERBS: Record<string, { past: string; present: string }> = {
+  make: { past: 'made', present: 'makes' },
+  set: { past: 'set', present: 'sets' },
+  build: { past: 'built', present: 'builds' },
+  write: { past: 'wrote', present: 'writes' },
+  rewrite: { past: 'rewrote', present: 'rewrites' },
+  split: { past: 'split', present: 'splits' },
+  format: { past: 'formatted', present: 'formats' },
+  drop: { past: 'dropped', present: 'drops' },
+  bump: { past: 'bumped', present: 'bumps' },
+  ...Object.fromEntries([
+    'add', 'fix', 'remove', 'rename', 'move', 'update', 'refactor', 'implement', 'document',
+    'restructure', 'improve', 'change', 'create', 'delete', 'replace', 'use', 'support',
+    'handle', 'allow', 'upgrade', 'clean', 'introduce', 'enable', 'disable', 'merge',
+    'release', 'revert', 'extract', 'simplify', 'prevent', 'avoid', 'ensure', 'reduce',
+    'expose', 'validate', 'show', 'return', 'convert', 'migrate', 'test', 'correct'
+  ].map(verb => [verb, { past: regularPast(verb), present: regularPresent(verb) }]))
+};
+
+/**
+ * Get the style profile of the current repository, learning it from git log when HEAD has
+ * moved since it was last stored
+ * @param refresh - Relearn even if the stored profile is current
+ * @returns The profile, or null outside a repository or with too little history
+ */
+export function getStyleProfile(refresh = false): StyleProfile | null {
+  const root = getRepoRoot();
+  const head = getHeadCommit();
+
+  if (!root || !head) {
+    return null;
+  }
+
+  const { styleSampleSize } = getConfig();
+  const stored = readStoredProfiles();
+  const current = stored[root];
+
+  if (!refresh && current && current.head === head && current.sampleSize === styleSampleSize) {
+    return current.profile;
+  }
+
+  const profile = learnStyle(getRecentSubjects(styleSampleSize));
+  stored[root] = { head, sampleSize: styleSampleSize, profile };
+  writeStoredProfiles(stored);
+
+  return profile;
+}
+
+/**
+ * Work out the conventions a set of commit subjects follow
+ * @param subjects - Subject lines, newest first
+ * @returns The profile, or null when there are too few subjects to judge
+ */
+export function learnStyle(subjects: string[]): StyleProfile | null {
+  const samples = subjects.filter(s => !/^(Revert "|fixup! |squash! |amend! )/.test(s));
+
+  if (samples.length < MIN_SAMPLES) {
+    return null;
+  }
+
+  const share = (count: number): number => count / samples.length;
+  const tickets = new Map<string, number>();
+  const keys = new Set<string>();
+  const scopes = new Map<string, number>();
+  let conventional = 0;
+  let scoped = 0;
+  let intent = 0;
+  let unicode = 0;
+  let shortcode = 0;
+  let capitalized = 0;
+  let period = 0;
+  const moods: Record<Mood, number> = { imperative: 0, past: 0, present: 0 };
+
+  for (const subject of samples) {
+    let rest = subject;
+
+    const ticket = TICKET_FORMATS.find(t => t.pattern.test(rest));
+    if (ticket) {
+      tickets.set(ticket.format, (tickets.get(ticket.format) ?? 0) + 1);
+      const id = ticket.pattern.exec(rest)?.[1] ?? '';
+      if (/^[A-Z]/.test(id)) keys.add(id.replace(/-\d+$/, ''));
+      rest = rest.replace(ticket.pattern, '');
+    }
+
+    if (UNICODE_EMOJI.test(rest)) {
+      unicode++;
+      rest = rest.replace(UNICODE_EMOJI, '');
+    } else if (SHORTCODE_EMOJI.test(rest)) {
+      shortcode++;
+      rest = rest.replace(SHORTCODE_EMOJI, '');
+    }
+
+    const type = CONVENTIONAL_SUBJECT.exec(rest);
+    if (type) {
+      conventional++;
+      if (type[2]) {
+        scoped++;
+        scopes.set(type[2], (scopes.get(type[2]) ?? 0) + 1);
+      }
+      rest = rest.replace(CONVENTIONAL_SUBJECT, '');
+    } else if (INTENT_SUBJECT.test(rest)) {
+      intent++;
+      rest = rest.replace(INTENT_SUBJECT, '');
+    }
+
+    if (/^[A-Z][a-z]/.test(rest)) capitalized++;
+    if (/[^.]\.$/.test(rest)) period++;
+
+    const mood = detectMood(rest);
+    if (mood) moods[mood]++;
+  }
+
+  const [ticketFormat, ticketCount] = [...tickets.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+  const lengths = samples.map(s => s.length).sort((a, b) => a - b);
+  const classified = moods.imperative + moods.past + moods.present;
+
+  return {
+    sampleSize: samples.length,
+    format: share(conventional) >= MAJORITY ? 'conventional' : share(intent) >= MAJORITY ? 'intent' : 'plain',
+    capitalized: share(capitalized) >= MAJORITY,
+    mood: classified > 0
+      ? (Object.keys(moods) as Mood[]).reduce((best, m) => moods[m] > moods[best] ? m : best, 'imperative')
+      : 'imperative',
+    trailingPeriod: share(period) >= MAJORITY,
+    ...(share(ticketCount) >= MAJORITY ? { ticket: { format: ticketFormat, keys: [...keys] } } : {}),
+    ...(share(unicode) >= MAJORITY ? { emoji: 'unicode' as const } : {}),
+    ...(share(shortcode) >= MAJORITY ? { emoji: 'shortcode' as const } : {}),
+    scopes: [...scopes.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SCOPES)
+      .map(([name, count]) => ({ name, count })),
+    scopeRate: conventional > 0 ? scoped / conventional : 0,
+    medianLength: lengths[Math.floor(lengths.length / 2)],
+    longLength: lengths[Math.min(lengths.length - 1, Math.floor(lengths.length * 0.9))]
+  };
+}
+
+/**
+ * Rewrite a message in the repository's casing, mood and punctuation
+ * @param message - The message part of a subject, without intent or type prefix
+ */
+export function styleMessage(message: string, profile: StyleProfile): string {
+  let styled = toMood(message.trim().replace(/\.+$/, ''), profile.mood);
+
+  styled = profile.capitalized ? upperFirst(styled) : lowerFirst(styled);
+
+  return profile.trailingPeriod ? `${styled}.` : styled;
+}
+
+/**
+ * Build the ticket and emoji prefix the repository puts in front of its subjects
+ * @returns The prefix (possibly empty), e.g. "[ABC-123] ✨ "
+ */
+export function stylePrefix(intent: string, profile: StyleProfile): string {
+  let prefix = '';
+
+  if (profile.ticket) {
+    const ticket = findBranchTicket(profile);
+    if (ticket) {
+      prefix += profile.ticket.format.replace('{ticket}', ticket);
+    }
+  }
+
+  if (profile.emoji) {
+    const normalized = normalizeIntent(intent);
+    if (normalized) {
+      prefix += EMOJI[normalized][profile.emoji === 'unicode' ? 0 : 1] + ' ';
+    }
+  }
+
+  return prefix;
+}
+
+/**
+ * Pick the scope the repository would use for a change
+ * @param inferred - The scope inferred from the changed paths
+ * @param files - The changed files
+ * @returns A known scope that matches the files, the inferred scope, or undefined when the
+ *          repository rarely uses scopes
+ */
+export function styleScope(inferred: string | undefined, files: string[], profile: StyleProfile): string | undefined {
+  if (profile.scopeRate < 0.2) {
+    return undefined;
+  }
+
+  if (profile.scopes.length === 0 || (inferred && profile.scopes.some(s => s.name === inferred))) {
+    return inferred;
+  }
+
+  // A known scope that names a directory or file shared by every change
+  const known = profile.scopes.find(({ name }) =>
+    files.length > 0 &&
+    files.every(f => f.split('/').some(part => part.replace(/\.[^.]+$/, '').toLowerCase() === name.toLowerCase()))
+  );
+
+  return known?.name ?? inferred;
+}
+
+/**
+ * Find a ticket id in the branch name, e.g. ABC-123 in "feature/ABC-123-login"
+ */
+function findBranchTicket(profile: StyleProfile): string | null {
+  const branch = getCurrentBranch();
+
+  if (!branch || !profile.ticket) {
+    return null;
+  }
+
+  if (profile.ticket.format.startsWith('#')) {
+    return /(?:^|[/_-])(\d+)(?:[/_-]|$)/.exec(branch)?.[1] ?? null;
+  }
+
+  const ids = [...branch.matchAll(/([A-Za-z][A-Za-z0-9]+)-(\d+)/g)].map(m => `${m[1].toUpperCase()}-${m[2]}`);
+  return ids.find(id => profile.ticket?.keys.includes(id.replace(/-\d+$/, ''))) ?? ids[0] ?? null;
+}
+
+/**
+ * Remove a leading ticket id and emoji, e.g. "[ABC-1] ✨ feat: x" -> "feat: x"
+ */
+export function stripStylePrefix(subject: string): string {
+  const ticket = TICKET_FORMATS.find(t => t.pattern.test(subject));
+  const rest = ticket ? subject.replace(ticket.pattern, '') : subject;
+  return rest.replace(UNICODE_EMOJI, '').replace(SHORTCODE_EMOJI, '');
+}
+
+/**
+ * Tell the grammatical mood from the first word of a description ("Add", "Added", "Adds")
+ * @returns The mood, or null when the first word is not a known verb
+ */
+export function detectMood(description: string): Mood | null {
+  const word = description.split(/\s/)[0]?.toLowerCase();
+
+  for (const [base, forms] of Object.entries(VERBS)) {
+    if (word === base) return 'imperative';
+    if (word === forms.past) return 'past';
+    if (word === forms.present) return 'present';
+  }
+
+  return null;
+}
+
+/**
+ * Put the first word of a message in the given mood, e.g. "added x" -> "add x"
+ */
+export function toMood(message: string, mood: Mood): string {
+  const [word, ...rest] = message.split(' ');
+  const lower = word.toLowerCase();
+  const base = Object.entries(VERBS).find(([verb, forms]) =>
+    lower === verb || lower === forms.past || lower === forms.present
+  )?.[0];
+
+  if (!base) {
+    return message;
+  }
+
+  const replacement = mood === 'imperative' ? base : VERBS[base][mood];
+  return [word[0] === word[0].toUpperCase() ? upperFirst(replacement) : replacement, ...rest].join(' ');
+}
+
+function regularPast(verb: string): string {
+  if (verb.endsWith('e')) return `${verb}d`;
+  if (/[^aeiou]y$/.test(verb)) return `${verb.slice(0, -1)}ied`;
+  return `${verb}ed`;
+}
+
+function regularPresent(verb: string): string {
+  if (/(s|x|z|ch|sh)$/.test(verb)) return `${verb}es`;
+  if (/[^aeiou]y$/.test(verb)) return `${verb.slice(0, -1)}ies`;
+  return `${verb}s`;
+}
+
+function readStoredProfiles(): Record<string, StoredProfile> {
+  try {
+    return existsSync(STYLE_FILE) ? JSON.parse(readFileSync(STYLE_FILE, 'utf-8')) : {};
+  } catch {
+    // Corrupted file, relearn everything
+    return {};
+  }
+}
+
+function writeStoredProfiles(profiles: Record<string, StoredProfile>): void {
+  try {
+    if (!existsSync(STYLE_DIR)) {
+      mkdirSync(STYLE_DIR, { recursive: true });
+    }
+    writeFileSync(STYLE_FILE, JSON.stringify(profiles, null, 2), 'utf-8');
+  } catch {
+    // Not being able to store the profile only costs a git log next time
+  }
+}
@@ -1,19 +1,80 @@
 import { createHash } from 'crypto';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  closeSync,
+  renameSync,
+  unlinkSync,
+  statSync
+} from 'fs';
 import { homedir } from 'os';
 import { join, basename } from 'path';
+import { getConfig } from './config.js';
 
-interface CacheEntry {
-  hash: string;
+interface CachedSuggestion {
   intent: string;
   message: string;
+  body?: string;
+  breaking?: boolean;
+}
+
+/**
+ * What a suggestion depends on. The same diff gets a separate entry per repository,
+ * provider, model and message format.
+ */
+export interface CacheKey {
+  repo: string;     // repository root
+  provider: string;
+  model?: string;
+  format: string;
+  diff: string;
+}
+
+/**
+ * The commit a suggestion ended up in, with the message as it was finally committed
+ */
+export interface CommitRecord {
+  commit: string;
+  message: string;
   timestamp: number;
-  folder: string;
+}
+
+export interface CacheEntry extends CachedSuggestion {
+  hash: string;
+  timestamp: number; // when the suggestion was generated
+  lastUsed: number;  // last hit, for LRU eviction
+  repo: string;      // repository root, empty for entries migrated from the old cache
+  folder: string;    // repository name, for display
+  provider: string;
+  model?: string;
+  format: string;
+  diffHash?: string; // the diff alone, to find the entry again at commit time
+  committed?: CommitRecord;
+}
+
+export interface ClearFilter {
+  repo?: string;
+  olderThan?: number; // milliseconds
+}
+
+interface CacheFile {
+  version: number;
+  entries: CacheEntry[];
 }
 
 const CACHE_DIR = join(homedir(), '.commitect');
 const CACHE_FILE = join(CACHE_DIR, 'cache.json');
-const CACHE_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+const LOCK_FILE = CACHE_FILE + '.lock';
+const CACHE_VERSION = 2;
+const DAY = 24 * 60 * 60 * 1000; // 1 day in milliseconds
+
+const LOCK_TIMEOUT = 2000;
+const LOCK_RETRY_DELAY = 25;
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_AGE = 10000;
 
 class CommitCache {
   private cache: Map<string, CacheEntry>;
@@ -24,68 +85,93 @@ class CommitCache {
   }
 
   /**
-   * Generate a hash from the git diff
+   * Generate a hash from everything the suggestion depends on
+   */
+  private hashKey(key: CacheKey): string {
+    return createHash('sha256')
+      .update(JSON.stringify([key.repo, key.provider, key.model ?? '', key.format, key.diff.trim()]))
+      .digest('hex');
+  }
+
+  /**
+   * Hash the diff alone, which is shared by the entries of every provider and format
    */
   private hashDiff(diff: string): string {
     return createHash('sha256').update(diff.trim()).digest('hex');
   }
 
   /**
-   * Get current folder name
+   * Get the configured maximum entry age in milliseconds
    */
-  private getCurrentFolder(): string {
-    return basename(process.cwd());
+  private getMaxAge(): number {
+    return getConfig().cacheMaxAge * DAY;
   }
 
   /**
    * Load cache from disk
    */
   private loadCache(): void {
+    this.cache = new Map(this.readEntries().map(entry => [entry.hash, entry]));
+  }
+
+  /**
+   * Read the entries on disk that have not expired, upgrading a version 1 file
+   */
+  private readEntries(): CacheEntry[] {
     try {
-      if (!existsSync(CACHE_DIR)) {
-        mkdirSync(CACHE_DIR, { recursive: true });
+      if (!existsSync(CACHE_FILE)) {
+        return [];
       }
 
-      if (existsSync(CACHE_FILE)) {
-        const data = readFileSync(CACHE_FILE, 'utf-8');
-        const entries: CacheEntry[] = JSON.parse(data);
-        
-        // Load valid entries (not expired)
-        const now = Date.now();
-        entries.forEach(entry => {
-          if (now - entry.timestamp < CACHE_MAX_AGE) {
-            this.cache.set(entry.hash, entry);
-          }
-        });
-      }
-    } catch (error) {
+      const data: CacheFile | CacheEntry[] = JSON.parse(readFileSync(CACHE_FILE, 'utf-8'));
+      const entries = Array.isArray(data) ? data.map(migrateEntry) : data.entries ?? [];
+
+      // Keep valid entries (not expired)
+      const now = Date.now();
+      const maxAge = this.getMaxAge();
+      return entries.filter(entry => now - entry.timestamp < maxAge);
+    } catch {
       // If cache is corrupted, start fresh
-      this.cache.clear();
+      return [];
     }
   }
 
   /**
-   * Save cache to disk
+   * Apply a change to the cache file while holding the lock. The file is re-read first so
+   * entries written by other processes are kept, and replaced atomically afterwards.
    */
-  private saveCache(): void {
+  private update<T>(change: (entries: Map<string, CacheEntry>) => T): T | undefined {
     try {
       if (!existsSync(CACHE_DIR)) {
         mkdirSync(CACHE_DIR, { recursive: true });
       }
 
-      const entries = Array.from(this.cache.values());
-      writeFileSync(CACHE_FILE, JSON.stringify(entries, null, 2), 'utf-8');
+      return withLock(() => {
+        const entries = new Map(this.readEntries().map(entry => [entry.hash, entry]));
+        const result = change(entries);
+
+        evict(entries, getConfig().cacheMaxEntries);
+
+        const file: CacheFile = { version: CACHE_VERSION, entries: [...entries.values()] };
+        const temp = `${CACHE_FILE}.${process.pid}.tmp`;
+        writeFileSync(temp, JSON.stringify(file, null, 2), 'utf-8');
+        renameSync(temp, CACHE_FILE);
+
+        this.cache = entries;
+        return result;
+      });
     } catch (error) {
       // Silently fail - caching is optional
       console.warn('Warning: Failed to save cache');
+      return undefined;
     }
   }
 
   /**
    * Get cached commit message for a diff
    */
-  get(diff: string): { intent: string; message: string; folder: string } | null {
-    const hash = this.hashDiff(diff);
+  get(key: CacheKey): (CachedSuggestion & { folder: string }) | null {
+    const hash = this.hashKey(key);
     const entry = this.cache.get(hash);
 
     if (!entry) {
@@ -94,15 +180,23 @@ class CommitCache {
 
     // Check if entry is still valid
     const now = Date.now();
-    if (now - entry.timestamp > CACHE_MAX_AGE) {
-      this.cache.delete(hash);
-      this.saveCache();
+    if (now - entry.timestamp > this.getMaxAge()) {
+      this.update(entries => entries.delete(hash));
       return null;
     }
 
+    this.update(entries => {
+      const current = entries.get(hash);
+      if (current) {
+        current.lastUsed = now;
+      }
+    });
+
     return {
       intent: entry.intent,
       message: entry.message,
+      ...(entry.body ? { body: entry.body } : {}),
+      ...(entry.breaking ? { breaking: true } : {}),
       folder: entry.folder
     };
   }
@@ -110,26 +204,73 @@ class CommitCache {
   /**
    * Store a commit message in cache
    */
-  set(diff: string, intent: string, message: string): void {
-    const hash = this.hashDiff(diff);
-    
-    this.cache.set(hash, {
-      hash,
-      intent,
-      message,
-      timestamp: Date.now(),
-      folder: this.getCurrentFolder()
+  set(key: CacheKey, suggestion: CachedSuggestion): void {
+    const hash = this.hashKey(key);
+    const now = Date.now();
+
+    this.update(entries => {
+      entries.set(hash, {
+        hash,
+        intent: suggestion.intent,
+        message: suggestion.message,
+        ...(suggestion.body ? { body: suggestion.body } : {}),
+        ...(suggestion.breaking ? { breaking: true } : {}),
+        timestamp: now,
+        lastUsed: now,
+        repo: key.repo,
+        folder: basename(key.repo),
+        provider: key.provider,
+        ...(key.model ? { model: key.model } : {}),
+        format: key.format,
+        diffHash: this.hashDiff(key.diff)
+      });
     });
+  }
+
+  /**
+   * Find the most recently used suggestion for a diff in a repository
+   */
+  findByDiff(repo: string, diff: string): CacheEntry | null {
+    const diffHash = this.hashDiff(diff);
+    const matches = this.getHistoryByRepo(repo)
+      .filter(entry => entry.diffHash === diffHash)
+      .sort((a, b) => b.lastUsed - a.lastUsed);
 
-    this.saveCache();
+    return matches[0] ?? null;
   }
 
   /**
-   * Clear all cache
+   * Record that a suggestion was committed, and with which final message
    */
-  clear(): void {
-    this.cache.clear();
-    this.saveCache();
+  markCommitted(hash: string, record: CommitRecord): void {
+    this.update(entries => {
+      const entry = entries.get(hash);
+      if (entry) {
+        entry.committed = record;
+      }
+    });
+  }
+
+  /**
+   * Clear the whole cache, or only the entries matching a filter
+   * @returns The number of entries removed
+   */
+  clear(filter: ClearFilter = {}): number {
+    const now = Date.now();
+    const matches = (entry: CacheEntry): boolean =>
+      (filter.repo === undefined || entry.repo === filter.repo) &&
+      (filter.olderThan === undefined || now - entry.timestamp > filter.olderThan);
+
+    return this.update(entries => {
+      let removed = 0;
+      for (const [hash, entry] of entries) {
+        if (matches(entry)) {
+          entries.delete(hash);
+          removed++;
+        }
+      }
+      return removed;
+    }) ?? 0;
   }
 
   /**
@@ -137,7 +278,7 @@ class CommitCache {
    */
   getStats(): { size: number; oldestEntry: number | null } {
     const entries = Array.from(this.cache.values());
-    const oldestEntry = entries.length > 0 
+    const oldestEntry = entries.length > 0
       ? Math.min(...entries.map(e => e.timestamp))
       : null;
 
@@ -156,15 +297,97 @@ class CommitCache {
   }
 
   /**
-   * Get cache entries for a specific folder
+   * Get cache entries for a specific repository root
    */
-  getHistoryByFolder(folder: string): CacheEntry[] {
-    const entries = Array.from(this.cache.values());
-    return entries
-      .filter(entry => entry.folder === folder)
-      .sort((a, b) => b.timestamp - a.timestamp);
+  getHistoryByRepo(repo: string): CacheEntry[] {
+    return this.getHistory().filter(entry => entry.repo === repo);
   }
 }
 
+/**
+ * Upgrade an entry from the version 1 cache. Its key was a hash of the diff alone, so it can
+ * no longer be looked up, but it stays in the history until it expires.
+ */
+function migrateEntry(entry: CacheEntry): CacheEntry {
+  return {
+    ...entry,
+    lastUsed: entry.lastUsed ?? entry.timestamp,
+    repo: entry.repo ?? '',
+    folder: entry.folder ?? '',
+    provider: entry.provider ?? 'unknown',
+    format: entry.format ?? 'intent'
+  };
+}
+
+/**
+ * Drop the least recently used entries beyond the size cap
+ */
+function evict(entries: Map<string, CacheEntry>, maxEntries: number): void {
+  if (entries.size <= maxEntries) {
+    return;
+  }
+
+  const oldest = [...entries.values()]
+    .sort((a, b) => a.lastUsed - b.lastUsed)
+    .slice(0, entries.size - maxEntries);
+
+  oldest.forEach(entry => entries.delete(entry.hash));
+}
+
+/**
+ * Run a function while holding the cache lock file, waiting for other processes to release it
+ */
+function withLock<T>(fn: () => T): T {
+  const deadline = Date.now() + LOCK_TIMEOUT;
+
+  for (;;) {
+    try {
+      closeSync(openSync(LOCK_FILE, 'wx'));
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+
+      if (isStale(LOCK_FILE)) {
+        try {
+          unlinkSync(LOCK_FILE);
+        } catch {
+          // Another process removed it first
+        }
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the cache lock');
+      }
+
+      sleep(LOCK_RETRY_DELAY);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    try {
+      unlinkSync(LOCK_FILE);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+function isStale(path: string): boolean {
+  try {
+    return Date.now() - statSync(path).mtimeMs > STALE_LOCK_AGE;
+  } catch {
+    return false;
+  }
+}
+
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
 // Singleton instance
-export const commitCache = new CommitCache();
\ No newline at end of file
+export const commitCache = new CommitCache();
@@ -0,0 +1,274 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { getRepoRoot } from './git.js';
+
+export type MessageFormat = 'intent' | 'conventional' | 'plain';
+
+export interface CommitectConfig {
+  provider: string;
+  remote: boolean;
+  format: MessageFormat;
+  body: boolean;
+  style: boolean; // adapt messages to the conventions in git log
+  styleSampleSize: number; // commits read to learn the style
+  endpoint?: string;
+  model?: string;
+  apiKey?: string;
+  timeout?: number;
+  maxRetries?: number;
+  maxSubjectLength: number;
+  forbiddenWords: string[]; // rejected by commitect lint
+  trailers: string[]; // appended to every generated message, e.g. "Refs: ABC-123"
+  signoff: boolean; // append Signed-off-by with the git identity
+  maxDiffSize: number; // characters per provider request
+  ignoredPaths: string[]; // gitignore-style patterns, see also .commitectignore
+  cacheMaxAge: number; // days
+  cacheMaxEntries: number;
+}
+
+export type ConfigScope = 'global' | 'local';
+export type ConfigSource = 'default' | ConfigScope;
+type ConfigValueType = 'string' | 'number' | 'boolean' | 'string[]';
+
+const CONFIG_DIR = join(homedir(), '.commitect');
+const GLOBAL_CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+const LOCAL_CONFIG_FILE = '.commitectrc';
+
+export const DEFAULT_CONFIG: CommitectConfig = {
+  provider: 'detector',
+  remote: true,
+  format: 'intent',
+  body: true,
+  style: true,
+  styleSampleSize: 100,
+  maxSubjectLength: 70,
+  forbiddenWords: ['WIP', 'DO NOT MERGE'],
+  trailers: [],
+  signoff: false,
+  maxDiffSize: 40000,
+  ignoredPaths: [
+    'node_modules/',
+    'obj/',
+    'dist/',
+    'build/',
+    '.git/'
+  ],
+  cacheMaxAge: 30,
+  cacheMaxEntries: 500
+};
+
+// Every key that may appear in a config file, and the type its value must have
+export const CONFIG_KEYS: Record<keyof CommitectConfig, ConfigValueType> = {
+  provider: 'string',
+  remote: 'boolean',
+  format: 'string',
+  body: 'boolean',
+  style: 'boolean',
+  styleSampleSize: 'number',
+  endpoint: 'string',
+  model: 'string',
+  apiKey: 'string',
+  timeout: 'number',
+  maxRetries: 'number',
+  maxSubjectLength: 'number',
+  forbiddenWords: 'string[]',
+  trailers: 'string[]',
+  signoff: 'boolean',
+  maxDiffSize: 'number',
+  ignoredPaths: 'string[]',
+  cacheMaxAge: 'number',
+  cacheMaxEntries: 'number'
+};
+
+// Keys that only accept a fixed set of values
+export const CONFIG_CHOICES: Partial<Record<keyof CommitectConfig, readonly string[]>> = {
+  format: ['intent', 'conventional', 'plain']
+};
+
+// Keys that decide where the diff is sent and with which credentials. A cloned repository's
+// .commitectrc must not turn network access back on or redirect requests to its own host.
+export const GLOBAL_ONLY_KEYS: readonly (keyof CommitectConfig)[] = ['provider', 'remote', 'endpoint', 'apiKey'];
+
+let resolvedConfig: CommitectConfig | null = null;
+
+// Local files already warned about, so the warning shows once per run
+const warnedFiles = new Set<string>();
+
+/**
+ * Get the path of the config file for a scope
+ * @returns The file path, or null for the local scope outside a git repository
+ */
+export function getConfigPath(scope: ConfigScope): string | null {
+  if (scope === 'global') {
+    return GLOBAL_CONFIG_FILE;
+  }
+
+  const root = getRepoRoot();
+  return root ? join(root, LOCAL_CONFIG_FILE) : null;
+}
+
+/**
+ * Read the settings of a single config file, without unknown keys, invalid values and,
+ * for the local file, the keys that can only be set globally
+ */
+export function readConfigFile(scope: ConfigScope): Partial<CommitectConfig> {
+  const path = getConfigPath(scope);
+  const data = sanitize(readRawConfigFile(scope));
+
+  if (path && scope === 'local') {
+    const ignored = GLOBAL_ONLY_KEYS.filter(key => data[key] !== undefined);
+    ignored.forEach(key => delete data[key]);
+
+    if (ignored.length > 0 && !warnedFiles.has(path)) {
+      warnedFiles.add(path);
+      console.warn(`⚠  Ignoring ${ignored.join(', ')} in ${path}, these can only be set globally`);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Read a single config file as written, for changing one key without dropping the others
+ */
+export function readRawConfigFile(scope: ConfigScope): Record<string, unknown> {
+  const path = getConfigPath(scope);
+
+  if (!path || !existsSync(path)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    throw new Error(`Invalid config file: ${path}`);
+  }
+
+  return data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : {};
+}
+
+/**
+ * Overwrite a single config file
+ */
+export function writeConfigFile(scope: ConfigScope, data: Record<string, unknown>): void {
+  const path = getConfigPath(scope);
+
+  if (!path) {
+    throw new Error('Not a git repository, cannot write .commitectrc');
+  }
+
+  if (scope === 'global' && !existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+
+  writeFileSync(path, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+  resolvedConfig = null;
+}
+
+/**
+ * Get the resolved configuration: defaults, overridden by ~/.commitect/config.json,
+ * overridden by the repository's .commitectrc
+ */
+export function getConfig(): CommitectConfig {
+  if (!resolvedConfig) {
+    resolvedConfig = {
+      ...DEFAULT_CONFIG,
+      ...readConfigFile('global'),
+      ...readConfigFile('local')
+    };
+  }
+
+  return resolvedConfig;
+}
+
+/**
+ * Find which layer a resolved config value comes from
+ */
+export function getConfigSource(key: keyof CommitectConfig): ConfigSource {
+  if (readConfigFile('local')[key] !== undefined) return 'local';
+  if (readConfigFile('global')[key] !== undefined) return 'global';
+  return 'default';
+}
+
+export function isConfigKey(key: string): key is keyof CommitectConfig {
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key);
+}
+
+/**
+ * Convert a command-line string into the type expected for a config key
+ * @throws If the value cannot be converted
+ */
+export function parseConfigValue(key: keyof CommitectConfig, raw: string): CommitectConfig[keyof CommitectConfig] {
+  switch (CONFIG_KEYS[key]) {
+    case 'number': {
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`"${key}" must be a non-negative number`);
+      }
+      return value;
+    }
+
+    case 'boolean':
+      if (!['true', 'false'].includes(raw)) {
+        throw new Error(`"${key}" must be true or false`);
+      }
+      return raw === 'true';
+
+    case 'string[]':
+      if (raw.trim().startsWith('[')) {
+        let value: unknown;
+        try {
+          value = JSON.parse(raw);
+        } catch {
+          value = null;
+        }
+        if (!isStringArray(value)) {
+          throw new Error(`"${key}" must be a list of strings`);
+        }
+        return value;
+      }
+      return raw.split(',').map(s => s.trim()).filter(Boolean);
+
+    default: {
+      const choices = CONFIG_CHOICES[key];
+      if (choices && !choices.includes(raw)) {
+        throw new Error(`"${key}" must be one of: ${choices.join(', ')}`);
+      }
+      return raw as CommitectConfig[keyof CommitectConfig];
+    }
+  }
+}
+
+/**
+ * Drop unknown keys and values of the wrong type from a parsed config file
+ */
+function sanitize(data: unknown): Partial<CommitectConfig> {
+  const result: Record<string, unknown> = {};
+
+  if (!data || typeof data !== 'object') {
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!isConfigKey(key)) continue;
+
+    const type = CONFIG_KEYS[key];
+    const valid =
+      type === 'string[]' ? isStringArray(value) :
+      type === 'number' ? typeof value === 'number' && Number.isFinite(value) :
+      typeof value === type;
+    const choices = CONFIG_CHOICES[key];
+
+    if (valid && (!choices || choices.includes(value as string))) {
+      result[key] = value;
+    }
+  }
+
+  return result as Partial<CommitectConfig>;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
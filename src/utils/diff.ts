@@ -0,0 +1,238 @@
+export interface FileDiff {
+  path: string;
+  oldPath?: string; // set when the file was renamed
+  diff: string;
+}
+
+/**
+ * Split a unified git diff into one chunk per file
+ * @param diff - The git diff string
+ * @returns Each file's path (the "b/" side) and its part of the diff, in diff order
+ */
+export function splitDiffByFile(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: { path: string; oldPath: string; lines: string[] } | null = null;
+
+  const flush = (): void => {
+    if (current) {
+      files.push({
+        path: current.path,
+        ...(current.oldPath !== current.path ? { oldPath: current.oldPath } : {}),
+        diff: current.lines.join('\n')
+      });
+    }
+  };
+
+  for (const line of diff.split('\n')) {
+    const header = /^diff --git a\/(.+?) b\/(.+)$/.exec(line);
+
+    if (header) {
+      flush();
+      current = { path: header[2], oldPath: header[1], lines: [] };
+    }
+
+    current?.lines.push(line);
+  }
+
+  flush();
+
+  return files;
+}
+
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'binary' | 'mode';
+
+export interface DiffHunk {
+  header: string;    // "@@ -10,6 +10,8 @@ function parseResponse(data) {"
+  context?: string;  // the declaration git names after the ranges
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];   // " ", "+" and "-" lines, without the header
+}
+
+export interface ParsedFile extends FileDiff {
+  status: FileStatus;
+  binary: boolean;
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number; // percentage for renames and copies
+  summarized?: 'lockfile' | 'generated'; // the hunks were replaced by a line counting them
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface ParsedDiff {
+  files: ParsedFile[];
+  additions: number;
+  deletions: number;
+}
+
+// One file of git diff --numstat and --name-status
+export interface DiffStat {
+  path: string;
+  oldPath?: string;
+  status: FileStatus;
+  similarity?: number;
+  additions: number | null; // null for binary files
+  deletions: number | null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// The line that replaces the hunks of lockfiles and generated files (see ./git)
+const SUMMARY_LINE = /^\[(lockfile|generated): (\d+) added and (\d+) removed lines\]$/;
+
+const NAME_STATUS: Record<string, FileStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'modified'
+};
+
+/**
+ * Parse a unified git diff into files, hunks and line counts
+ * @param patch - The git diff string
+ * @param stats - Optional git diff --numstat/--name-status output for the same diff. It wins over
+ *                what the patch headers say, e.g. for the line counts of binary files.
+ * @returns The files in diff order with their totals
+ */
+export function parseDiff(patch: string, stats: DiffStat[] = []): ParsedDiff {
+  const byPath = new Map(stats.map(stat => [stat.path, stat]));
+
+  const files = splitDiffByFile(patch).map(file => {
+    const parsed = parseFile(file);
+    const stat = byPath.get(file.path);
+    return stat ? applyStat(parsed, stat) : parsed;
+  });
+
+  return {
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0)
+  };
+}
+
+function parseFile(file: FileDiff): ParsedFile {
+  const lines = file.diff.split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+  const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+  const meta = (pattern: RegExp): string | undefined =>
+    header.map(line => pattern.exec(line)?.[1]).find(Boolean);
+
+  const hunks: DiffHunk[] = [];
+  for (const line of firstHunk === -1 ? [] : lines.slice(firstHunk)) {
+    const range = HUNK_HEADER.exec(line);
+
+    if (range) {
+      hunks.push({
+        header: line,
+        ...(range[5] ? { context: range[5] } : {}),
+        oldStart: Number(range[1]),
+        oldLines: range[2] === undefined ? 1 : Number(range[2]),
+        newStart: Number(range[3]),
+        newLines: range[4] === undefined ? 1 : Number(range[4]),
+        lines: []
+      });
+    } else if (hunks.length > 0 && /^[ +-]/.test(line)) {
+      hunks[hunks.length - 1].lines.push(line);
+    }
+  }
+
+  const changed = hunks.flatMap(hunk => hunk.lines);
+  const summary = header.map(line => SUMMARY_LINE.exec(line)).find(Boolean);
+  const binary = header.some(line => /^Binary files .* differ$/.test(line) || line === 'GIT binary patch');
+  const oldMode = meta(/^(?:old|deleted file) mode (\d+)$/);
+  const newMode = meta(/^(?:new|new file) mode (\d+)$/);
+  const similarity = meta(/^(?:similarity|dissimilarity) index (\d+)%$/);
+
+  return {
+    ...file,
+    status: fileStatus(header, binary, hunks.length, !!file.oldPath),
+    binary,
+    ...(oldMode ? { oldMode } : {}),
+    ...(newMode ? { newMode } : {}),
+    ...(similarity ? { similarity: Number(similarity) } : {}),
+    ...(summary ? { summarized: summary[1] as 'lockfile' | 'generated' } : {}),
+    additions: summary ? Number(summary[2]) : changed.filter(line => line.startsWith('+')).length,
+    deletions: summary ? Number(summary[3]) : changed.filter(line => line.startsWith('-')).length,
+    hunks
+  };
+}
+
+function fileStatus(header: string[], binary: boolean, hunkCount: number, moved: boolean): FileStatus {
+  if (header.some(line => line.startsWith('new file mode'))) return 'added';
+  if (header.some(line => line.startsWith('deleted file mode'))) return 'deleted';
+  if (header.some(line => line.startsWith('copy from '))) return 'copied';
+  if (moved) return 'renamed';
+  if (binary) return 'binary';
+  if (hunkCount === 0 && header.some(line => line.startsWith('old mode'))) return 'mode';
+  return 'modified';
+}
+
+function applyStat(file: ParsedFile, stat: DiffStat): ParsedFile {
+  const binary = file.binary || stat.additions === null;
+  const status = stat.status === 'modified'
+    ? binary ? 'binary' : file.status === 'mode' ? 'mode' : 'modified'
+    : stat.status;
+
+  return {
+    ...file,
+    status,
+    binary,
+    ...(stat.similarity !== undefined ? { similarity: stat.similarity } : {}),
+    additions: stat.additions ?? 0,
+    deletions: stat.deletions ?? 0
+  };
+}
+
+/**
+ * Combine the NUL-separated output of git diff -z --numstat and git diff -z --name-status
+ * @returns One entry per file, keyed by its new path
+ */
+export function parseDiffStats(numstat: string, nameStatus: string): DiffStat[] {
+  const counts = new Map<string, { additions: number | null; deletions: number | null }>();
+  const fields = numstat.split('\0');
+
+  for (let i = 0; i < fields.length; i++) {
+    const match = /^(-|\d+)\t(-|\d+)\t(.*)$/s.exec(fields[i]);
+    if (!match) {
+      continue;
+    }
+
+    // Renames leave the path empty and list the old and new paths as the next two fields
+    const path = match[3] || fields[(i += 2)];
+    counts.set(path, {
+      additions: match[1] === '-' ? null : Number(match[1]),
+      deletions: match[2] === '-' ? null : Number(match[2])
+    });
+  }
+
+  const stats: DiffStat[] = [];
+  const entries = nameStatus.split('\0');
+
+  for (let i = 0; i < entries.length - 1; i++) {
+    const code = /^([A-Z])(\d+)?$/.exec(entries[i]);
+    if (!code) {
+      continue;
+    }
+
+    const moved = code[1] === 'R' || code[1] === 'C';
+    const oldPath = moved ? entries[++i] : undefined;
+    const path = entries[++i];
+    const count = counts.get(path) ?? { additions: 0, deletions: 0 };
+
+    stats.push({
+      path,
+      ...(oldPath !== undefined ? { oldPath } : {}),
+      status: NAME_STATUS[code[1]] ?? 'modified',
+      ...(code[2] ? { similarity: Number(code[2]) } : {}),
+      ...count
+    });
+  }
+
+  return stats;
+}
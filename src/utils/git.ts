@@ -1,13 +1,45 @@
-import { execSync } from 'child_process';
+import { execSync, execFileSync } from 'child_process';
+import { lstatSync, readFileSync, readlinkSync } from 'fs';
+import { join, resolve } from 'path';
+import { getConfig } from './config.js';
+import { parseDiffStats, splitDiffByFile, DiffStat } from './diff.js';
+import { createIgnoreMatcher, readIgnoreFile, isLockfile, isMinified } from './ignore.js';
 
-const IGNORED_PATHS = [
-  'node_modules/',
-  'bin/',
-  'obj/',
-  'dist/',
-  'build/',
-  '.git/'
-];
+export type DiffMode = 'staged' | 'unstaged' | 'all';
+
+export interface DiffSelection {
+  mode: DiffMode;
+  paths?: string[];
+}
+
+/**
+ * git commit options passed through from the command line
+ */
+export interface CommitFlags {
+  verify?: boolean;           // false for --no-verify
+  gpgSign?: string | boolean; // -S, optionally with a key id
+  amend?: boolean;
+  author?: string;
+  signoff?: boolean;
+}
+
+// "Key: value" or "Key #value", the trailer forms git interpret-trailers accepts
+const TRAILER = /^[\w-]+(: | #).+$/;
+
+interface DiffSelectionFlags {
+  staged?: boolean;
+  unstaged?: boolean;
+  all?: boolean;
+}
+
+// Untracked files larger than this are listed without their content
+const MAX_UNTRACKED_SIZE = 1024 * 1024;
+
+const DIFF_ARGS: Record<DiffMode, string[]> = {
+  staged: ['diff', '--cached'],
+  unstaged: ['diff'],
+  all: ['diff', 'HEAD']
+};
 
 export function isGitRepository(): boolean {
   try {
@@ -18,57 +50,795 @@ export function isGitRepository(): boolean {
   }
 }
 
-export function getGitDiff(): string {
+/**
+ * Get the absolute path of the repository's working tree root
+ * @returns The root path, or null outside a git repository
+ */
+export function getRepoRoot(): string | null {
+  try {
+    return execSync('git rev-parse --show-toplevel', {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a --repo option: on its own it means the current repository, with a value it names another one
+ * @throws If no path is given outside a git repository
+ */
+export function resolveRepoPath(repo: string | boolean): string {
+  if (typeof repo === 'string') {
+    return resolve(repo);
+  }
+
+  const root = getRepoRoot();
+
+  if (!root) {
+    throw new Error('Not a git repository, pass --repo <path>');
+  }
+
+  return root;
+}
+
+/**
+ * Get the commit HEAD points to
+ * @returns The full hash, or null before the first commit
+ */
+export function getHeadCommit(): string | null {
+  try {
+    return execSync('git rev-parse --verify -q HEAD', {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the name of the checked-out branch
+ * @returns The branch name, or null on a detached HEAD
+ */
+export function getCurrentBranch(): string | null {
   try {
-    // Get both staged and unstaged changes
-    const diff = execSync('git diff HEAD', { 
+    const branch = execSync('git symbolic-ref --short -q HEAD', {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim();
+    return branch || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the subject lines of the most recent non-merge commits, newest first
+ */
+export function getRecentSubjects(limit: number): string[] {
+  try {
+    return execFileSync('git', ['log', '--no-merges', `--max-count=${limit}`, '--format=%s'], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).split('\n').filter(Boolean);
+  } catch {
+    // No commits yet
+    return [];
+  }
+}
+
+/**
+ * Get the full messages of the non-merge commits in a revision range, newest first
+ * @param range - Anything git log accepts, e.g. "origin/main..HEAD"
+ * @throws If the range is not valid
+ */
+export function getCommitMessages(range: string): { hash: string; message: string }[] {
+  let output: string;
+
+  try {
+    output = execFileSync('git', ['log', '--no-merges', '--format=%H%x1f%B%x1e', range, '--'], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+  } catch {
+    throw new Error(`Invalid revision range "${range}"`);
+  }
+
+  return output
+    .split('\x1e')
+    .map(record => record.replace(/^\n/, ''))
+    .filter(Boolean)
+    .map(record => {
+      const [hash, message] = record.split('\x1f');
+      return { hash, message: message.trim() };
+    });
+}
+
+/**
+ * Get the full message of a single commit
+ * @throws If the commit does not exist
+ */
+export function getCommitMessage(ref: string): string {
+  try {
+    return execFileSync('git', ['log', '-1', '--format=%B', ref, '--'], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim();
+  } catch {
+    throw new Error(`Unknown commit "${ref}"`);
+  }
+}
+
+/**
+ * Get the most recent tag reachable from a commit
+ * @returns The tag name, or null if there is none
+ */
+export function getLatestTag(ref = 'HEAD'): string | null {
+  try {
+    return execFileSync('git', ['describe', '--tags', '--abbrev=0', ref], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Guess the branch pull requests target: the remote's default branch, then a local main or master
+ * @returns The branch name, or null if none of them exist
+ */
+export function getDefaultBranch(): string | null {
+  try {
+    return execFileSync('git', ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim();
+  } catch {
+    // No remote HEAD, look for a conventional name
+  }
+
+  return ['main', 'master'].find(name => {
+    try {
+      execFileSync('git', ['rev-parse', '-q', '--verify', `refs/heads/${name}`], { stdio: 'pipe' });
+      return true;
+    } catch {
+      return false;
+    }
+  }) ?? null;
+}
+
+/**
+ * Get the best common ancestor of two commits
+ * @throws If either ref does not exist or they share no history
+ */
+export function getMergeBase(a: string, b: string): string {
+  try {
+    return execFileSync('git', ['merge-base', a, b], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim();
+  } catch {
+    throw new Error(`No common history between ${a} and ${b}`);
+  }
+}
+
+/**
+ * Get the diff between two commits
+ */
+export function getRangeDiff(from: string, to: string): string {
+  try {
+    const diff = execFileSync('git', ['diff', '--no-color', '-M', from, to, '--'], {
       encoding: 'utf-8',
       maxBuffer: 10 * 1024 * 1024 // 10MB buffer
     });
-    
+
     return filterIgnoredPaths(diff);
+  } catch {
+    throw new Error(`Failed to read the diff between ${from} and ${to}`);
+  }
+}
+
+/**
+ * Get what HEAD would contain after git commit --amend: the index (or, for the "all" mode, the
+ * working tree) against HEAD's parent, or against the empty tree for a root commit
+ */
+export function getAmendDiff(selection: DiffSelection = { mode: 'staged' }): string {
+  try {
+    const parent = hasParent('HEAD') ? 'HEAD^' : getEmptyTree();
+    const args = selection.mode === 'staged' ? ['diff', '--cached'] : ['diff'];
+    const diff = execFileSync('git', [...args, '--no-color', '-M', parent, '--', ...(selection.paths ?? [])], {
+      encoding: 'utf-8',
+      maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+    });
+    const untracked = selection.mode === 'staged' ? '' : getUntrackedDiff(selection.paths);
+
+    return filterIgnoredPaths(diff + untracked);
+  } catch {
+    throw new Error('Failed to read the diff of the amended commit');
+  }
+}
+
+function hasParent(ref: string): boolean {
+  try {
+    execFileSync('git', ['rev-parse', '--verify', '-q', `${ref}^`], { stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the id of the empty tree in the repository's hash format
+ */
+function getEmptyTree(): string {
+  return execFileSync('git', ['hash-object', '-t', 'tree', '--stdin'], {
+    input: '',
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe']
+  }).trim();
+}
+
+/**
+ * Find which of the given commits are already on the current branch's upstream
+ * @returns The published commits, or none when the branch has no upstream
+ */
+export function getPublishedCommits(commits: string[]): string[] {
+  try {
+    execFileSync('git', ['rev-parse', '--verify', '-q', '@{upstream}'], { stdio: 'pipe' });
+  } catch {
+    return [];
+  }
+
+  return commits.filter(commit => {
+    try {
+      execFileSync('git', ['merge-base', '--is-ancestor', commit, '@{upstream}'], { stdio: 'pipe' });
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Get the trailers of a commit message, e.g. "Signed-off-by: Jane <jane@example.com>"
+ */
+export function getTrailers(message: string): string[] {
+  try {
+    return execFileSync('git', ['interpret-trailers', '--parse'], {
+      encoding: 'utf-8',
+      input: message,
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).split('\n').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add trailers to a message, skipping the ones it already has. They join an existing trailer
+ * block, or start one after a blank line.
+ */
+export function appendTrailers(message: string, trailers: string[]): string {
+  const missing = [...new Set(trailers)].filter(trailer => !message.split('\n').includes(trailer));
+
+  if (missing.length === 0) {
+    return message;
+  }
+
+  const text = message.trimEnd();
+  const lastParagraph = text.split(/\n\s*\n/).pop() ?? '';
+  const hasTrailerBlock = text.includes('\n\n') && lastParagraph.split('\n').every(line => TRAILER.test(line));
+
+  return `${text}${hasTrailerBlock ? '\n' : '\n\n'}${missing.join('\n')}`;
+}
+
+/**
+ * Add the original message's trailers to a new message, unless it already has them
+ */
+export function keepTrailers(message: string, original: string): string {
+  return appendTrailers(message, getTrailers(original));
+}
+
+/**
+ * Get the committer identity, e.g. "Jane Doe <jane@example.com>"
+ * @returns The identity, or null when user.name or user.email is not set
+ */
+export function getIdentity(): string | null {
+  try {
+    const ident = execFileSync('git', ['var', 'GIT_COMMITTER_IDENT'], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim();
+    return /^(.*<[^>]*>)/.exec(ident)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the message of HEAD, leaving staged changes out of the commit
+ */
+export function amendHeadMessage(message: string, flags: CommitFlags = {}): void {
+  try {
+    execFileSync('git', ['commit', ...commitArgs({ ...flags, amend: true }), '--only', '--quiet', '-F', '-'], {
+      input: message,
+      stdio: ['pipe', 'inherit', 'inherit']
+    });
+  } catch {
+    throw new Error('Git commit --amend failed');
+  }
+}
+
+/**
+ * Replace the messages of commits on the current branch without touching any tree, the index or
+ * the working copy. Every commit from the oldest reworded one up to HEAD is recreated with
+ * git commit-tree, keeping its author, and the branch is moved to the new tip.
+ * @param messages - The new message for each full commit hash
+ * @returns The new HEAD
+ * @throws If a commit is not on the current branch, or a merge commit would have to be recreated
+ */
+export function rewordCommits(messages: Map<string, string>): string {
+  const git = (args: string[], options: { input?: string; env?: NodeJS.ProcessEnv } = {}): string =>
+    execFileSync('git', args, { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], maxBuffer: 64 * 1024 * 1024, ...options });
+
+  const head = git(['rev-parse', 'HEAD']).trim();
+
+  // Walk back along the branch until every commit to reword has been seen
+  const chain: { hash: string; parents: string[] }[] = [];
+  const pending = new Set(messages.keys());
+  for (const line of git(['log', '--first-parent', '--format=%H %P', 'HEAD']).split('\n')) {
+    if (pending.size === 0 || !line) break;
+    const [hash, ...parents] = line.split(' ');
+    chain.unshift({ hash, parents });
+    pending.delete(hash);
+  }
+
+  if (pending.size > 0) {
+    throw new Error(`${[...pending][0].slice(0, 7)} is not on the current branch`);
+  }
+
+  let parent: string | undefined = chain[0].parents[0];
+
+  for (const { hash, parents } of chain) {
+    if (parents.length > 1) {
+      throw new Error(`Cannot reword across the merge commit ${hash.slice(0, 7)}`);
+    }
+
+    const raw = git(['cat-file', 'commit', hash]);
+    const headerEnd = raw.indexOf('\n\n');
+    const header = raw.slice(0, headerEnd);
+    const tree = /^tree (\w+)$/m.exec(header)?.[1];
+    const author = /^author (.*) <(.*)> (\d+ [+-]\d{4})$/m.exec(header);
+
+    if (!tree || !author) {
+      throw new Error(`Cannot read commit ${hash.slice(0, 7)}`);
+    }
+
+    parent = git(['commit-tree', tree, ...(parent ? ['-p', parent] : []), '-F', '-'], {
+      input: messages.get(hash) ?? raw.slice(headerEnd + 2),
+      env: { ...process.env, GIT_AUTHOR_NAME: author[1], GIT_AUTHOR_EMAIL: author[2], GIT_AUTHOR_DATE: author[3] }
+    }).trim();
+  }
+
+  git(['update-ref', '-m', 'commitect: reword', 'HEAD', parent as string, head]);
+  return parent as string;
+}
+
+/**
+ * Check whether a tag exists
+ */
+export function tagExists(name: string): boolean {
+  try {
+    execFileSync('git', ['rev-parse', '-q', '--verify', `refs/tags/${name}`], { stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create an annotated tag on HEAD
+ */
+export function createTag(name: string, message: string): void {
+  try {
+    execFileSync('git', ['tag', '-a', name, '-m', message], { stdio: 'pipe' });
+  } catch {
+    throw new Error(`Failed to create tag ${name}`);
+  }
+}
+
+/**
+ * Turn --staged / --unstaged / --all flags and trailing pathspecs into a diff selection
+ * @param flags - Command-line flags, at most one may be set
+ * @param paths - Trailing pathspecs
+ * @param defaultMode - Mode used when no flag is given
+ */
+export function resolveDiffSelection(flags: DiffSelectionFlags, paths: string[] = [], defaultMode: DiffMode = 'all'): DiffSelection {
+  const modes = (['staged', 'unstaged', 'all'] as const).filter(mode => flags[mode]);
+
+  if (modes.length > 1) {
+    throw new Error(`Options --${modes.join(' and --')} cannot be used together`);
+  }
+
+  return { mode: modes[0] ?? defaultMode, paths };
+}
+
+/**
+ * Get the diff of a selection. Untracked files are included as new files, except in the staged
+ * mode, and a repository without commits is compared against the empty tree.
+ */
+export function getGitDiff(selection: DiffSelection = { mode: 'all' }): string {
+  try {
+    const diff = execFileSync('git', [...diffArgs(selection.mode), '--', ...(selection.paths ?? [])], {
+      encoding: 'utf-8',
+      maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+    });
+
+    // Untracked files are not in the index yet, so only the working tree side includes them
+    const untracked = selection.mode === 'staged' ? '' : getUntrackedDiff(selection.paths);
+
+    return filterIgnoredPaths(diff + untracked);
   } catch (error) {
     throw new Error('Failed to read git diff');
   }
 }
 
-export function hasChanges(): boolean {
+/**
+ * List the untracked files that are not ignored
+ * @param paths - Pathspecs relative to the current directory
+ * @returns Paths relative to the repository root
+ */
+export function getUntrackedFiles(paths: string[] = []): string[] {
   try {
-    const status = execSync('git status --porcelain', { 
-      encoding: 'utf-8' 
+    return execFileSync('git', ['ls-files', '--others', '--exclude-standard', '--full-name', '-z', '--', ...paths], {
+      encoding: 'utf-8',
+      maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+    }).split('\0').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write each untracked file as a new file, the way git diff would show it once added. The diff
+ * is built from the files directly, skipping ignored paths before anything is read.
+ */
+function getUntrackedDiff(paths: string[] = []): string {
+  const root = getRepoRoot() ?? process.cwd();
+  const isIgnored = getIgnoreMatcher(root);
+
+  return getUntrackedFiles(paths)
+    .filter(file => !isIgnored(file))
+    .map(file => newFileDiff(root, file))
+    .join('');
+}
+
+function newFileDiff(root: string, file: string): string {
+  const path = join(root, file);
+  const stats = lstatSync(path, { throwIfNoEntry: false });
+
+  if (!stats) {
+    return '';
+  }
+
+  const mode = stats.isSymbolicLink() ? '120000' : stats.mode & 0o111 ? '100755' : '100644';
+  const header = [`diff --git a/${file} b/${file}`, `new file mode ${mode}`];
+
+  if (stats.isSymbolicLink()) {
+    return [...header, '--- /dev/null', `+++ b/${file}`, '@@ -0,0 +1 @@', `+${readlinkSync(path)}`, '\\ No newline at end of file', ''].join('\n');
+  }
+
+  if (!stats.isFile() || stats.size === 0) {
+    return [...header, ''].join('\n');
+  }
+
+  if (stats.size > MAX_UNTRACKED_SIZE) {
+    return [...header, `[large file: ${stats.size} bytes omitted]`, ''].join('\n');
+  }
+
+  const content = readFileSync(path);
+
+  // Git treats a NUL byte in the first 8000 bytes as binary
+  if (content.subarray(0, 8000).includes(0)) {
+    return [...header, `Binary files /dev/null and b/${file} differ`, ''].join('\n');
+  }
+
+  const text = content.toString('utf-8');
+  const lines = text.split('\n');
+  const endsWithNewline = text.endsWith('\n');
+  if (endsWithNewline) {
+    lines.pop();
+  }
+
+  return [
+    ...header,
+    '--- /dev/null',
+    `+++ b/${file}`,
+    `@@ -0,0 +1${lines.length === 1 ? '' : `,${lines.length}`} @@`,
+    ...lines.map(line => `+${line}`),
+    ...(endsWithNewline ? [] : ['\\ No newline at end of file']),
+    ''
+  ].join('\n');
+}
+
+/**
+ * The git diff arguments for a mode. Before the first commit there is no HEAD, so "all"
+ * compares the working tree against the empty tree instead.
+ */
+function diffArgs(mode: DiffMode): string[] {
+  return mode === 'all' && !getHeadCommit() ? ['diff', getEmptyTree()] : DIFF_ARGS[mode];
+}
+
+/**
+ * Get the --numstat and --name-status view of a diff, for exact per-file counts and statuses
+ * @returns One entry per file, or none when git can't produce them
+ */
+export function getDiffStats(selection: DiffSelection = { mode: 'all' }): DiffStat[] {
+  const run = (format: string): string => execFileSync('git', [...diffArgs(selection.mode), '-z', format, '--', ...(selection.paths ?? [])], {
+    encoding: 'utf-8',
+    maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+  });
+
+  try {
+    return parseDiffStats(run('--numstat'), run('--name-status'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the changes a single commit introduced, against its first parent (or the empty tree for a root commit)
+ */
+export function getCommitDiff(commit: string): string {
+  try {
+    const diff = execFileSync('git', ['show', '--format=', '--no-color', '-M', '--first-parent', commit, '--'], {
+      encoding: 'utf-8',
+      maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+    });
+
+    return filterIgnoredPaths(diff);
+  } catch {
+    throw new Error(`Failed to read the diff of ${commit}`);
+  }
+}
+
+export function hasChanges(selection: DiffSelection = { mode: 'all' }): boolean {
+  try {
+    const status = execFileSync('git', ['status', '--porcelain', '--', ...(selection.paths ?? [])], {
+      encoding: 'utf-8'
+    });
+
+    // Each line is "XY path": X is the staged state, Y the working tree state.
+    // Untracked files ("??") are part of the working tree side of the diff, not the staged one.
+    return status.split('\n').filter(Boolean).some(line => {
+      const staged = line[0];
+      const unstaged = line[1];
+
+      if (staged === '?') {
+        return selection.mode !== 'staged';
+      }
+
+      switch (selection.mode) {
+        case 'staged':
+          return staged !== ' ';
+        case 'unstaged':
+          return unstaged !== ' ';
+        default:
+          return true;
+      }
     });
-    return status.trim().length > 0;
   } catch {
     return false;
   }
 }
 
-export function executeCommit(message: string): void {
+/**
+ * Stage every change (including untracked files) matching the pathspecs
+ */
+export function stageChanges(paths: string[] = []): void {
+  try {
+    execFileSync('git', ['add', '-A', '--', ...paths], { stdio: 'pipe' });
+  } catch {
+    throw new Error('Failed to stage changes');
+  }
+}
+
+/**
+ * Record the index as a tree, so it can be put back with restoreIndex
+ * @returns The tree id, or null when the index has conflicts
+ */
+export function saveIndex(): string | null {
+  try {
+    return execFileSync('git', ['write-tree'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the index with a tree recorded by saveIndex
+ */
+export function restoreIndex(tree: string): void {
+  try {
+    execFileSync('git', ['read-tree', tree], { stdio: 'pipe' });
+  } catch {
+    throw new Error('Failed to restore the index');
+  }
+}
+
+/**
+ * Unstage everything, keeping the working tree as it is
+ */
+export function unstageAll(): void {
+  try {
+    execSync('git reset -q', { stdio: 'pipe' });
+  } catch {
+    throw new Error('Failed to reset the index');
+  }
+}
+
+/**
+ * Unstage the changes matching the pathspecs, keeping the working tree as it is
+ */
+export function unstageChanges(paths: string[]): void {
+  try {
+    execFileSync('git', ['reset', '-q', '--', ...paths], { stdio: 'pipe' });
+  } catch {
+    throw new Error('Failed to unstage changes');
+  }
+}
+
+/**
+ * Turn repository-relative paths (as printed by git diff) into pathspecs that work from any subdirectory
+ */
+export function toRootPathspecs(paths: string[]): string[] {
+  return paths.map(p => `:(top,literal)${p}`);
+}
+
+/**
+ * List staged files that fall outside the given pathspecs
+ */
+export function getStagedFilesOutside(paths: string[]): string[] {
+  const list = (pathspecs: string[]): string[] =>
+    execFileSync('git', ['diff', '--cached', '--name-only', '--', ...pathspecs], { encoding: 'utf-8' })
+      .split('\n')
+      .filter(Boolean);
+
+  try {
+    const inside = new Set(list(paths));
+    return list([]).filter(file => !inside.has(file));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build an equivalent shell command for a commit, for dry runs. Each paragraph (subject, body)
+ * gets its own -m, like git commit -m 'subject' -m 'body'.
+ */
+export function buildCommitCommand(message: string, flags: CommitFlags = {}): string {
+  const paragraphs = message.trim().split(/\n\s*\n/);
+  return ['git', 'commit', ...commitArgs(flags), ...paragraphs.flatMap(p => ['-m', p])].map(shellQuote).join(' ');
+}
+
+/**
+ * Run git commit without a shell, passing the message on stdin
+ */
+export function executeCommit(message: string, flags: CommitFlags = {}): void {
   try {
-    execSync(`git commit -m "${message.replace(/"/g, '\\"')}"`, {
-      stdio: 'inherit'
+    execFileSync('git', ['commit', ...commitArgs(flags), '-F', '-'], {
+      input: message,
+      stdio: ['pipe', 'inherit', 'inherit']
     });
   } catch (error) {
     throw new Error('Git commit failed');
   }
 }
 
+function commitArgs(flags: CommitFlags): string[] {
+  return [
+    ...(flags.amend ? ['--amend'] : []),
+    ...(flags.verify === false ? ['--no-verify'] : []),
+    ...(flags.gpgSign ? [typeof flags.gpgSign === 'string' ? `--gpg-sign=${flags.gpgSign}` : '--gpg-sign'] : []),
+    ...(flags.author ? [`--author=${flags.author}`] : []),
+    ...(flags.signoff ? ['--signoff'] : [])
+  ];
+}
+
+/**
+ * Quote an argument for a POSIX shell, for commands printed for the user to run
+ */
+export function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Drop the files matched by ignoredPaths and .commitectignore, and reduce lockfiles and generated
+ * files (linguist-generated or -diff in .gitattributes, minified bundles) to a one-line summary
+ */
 function filterIgnoredPaths(diff: string): string {
-  const lines = diff.split('\n');
-  const filteredLines: string[] = [];
-  let skipFile = false;
-
-  for (const line of lines) {
-    // Check if this is a file header
-    if (line.startsWith('diff --git')) {
-      const path = line.split(' b/')[1];
-      skipFile = IGNORED_PATHS.some(ignored => path?.startsWith(ignored));
+  const files = splitDiffByFile(diff);
+
+  if (files.length === 0) {
+    return diff;
+  }
+
+  const root = getRepoRoot() ?? process.cwd();
+  const isIgnored = getIgnoreMatcher(root);
+  const kept = files.filter(file => !isIgnored(file.path));
+  const generated = getGeneratedPaths(root, kept.map(file => file.path));
+
+  return kept.map(file => {
+    const added = file.diff.split('\n').filter(line => line.startsWith('+') && !line.startsWith('+++'));
+
+    if (isLockfile(file.path)) {
+      return summarizeFile(file.diff, 'lockfile');
+    }
+    if (generated.has(file.path) || isMinified(file.path, added)) {
+      return summarizeFile(file.diff, 'generated');
     }
+    return file.diff;
+  }).join('\n');
+}
+
+/**
+ * Match paths against ignoredPaths and the repository's .commitectignore
+ */
+function getIgnoreMatcher(root: string): (path: string) => boolean {
+  return createIgnoreMatcher([...getConfig().ignoredPaths, ...readIgnoreFile(root)]);
+}
+
+/**
+ * Find the paths .gitattributes marks as linguist-generated or -diff
+ */
+function getGeneratedPaths(root: string, paths: string[]): Set<string> {
+  if (paths.length === 0) {
+    return new Set();
+  }
+
+  try {
+    const output = execFileSync('git', ['check-attr', '-z', '--stdin', 'linguist-generated', 'diff'], {
+      cwd: root,
+      input: paths.join('\0'),
+      encoding: 'utf-8',
+      maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+    }).split('\0');
 
-    if (!skipFile) {
-      filteredLines.push(line);
+    const generated = new Set<string>();
+
+    // Each match is "path NUL attribute NUL value NUL"
+    for (let i = 0; i + 2 < output.length; i += 3) {
+      const [path, attribute, value] = output.slice(i, i + 3);
+      if ((attribute === 'linguist-generated' && (value === 'set' || value === 'true')) ||
+          (attribute === 'diff' && value === 'unset')) {
+        generated.add(path);
+      }
     }
+
+    return generated;
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Replace a file's hunks with one line counting them, keeping its header
+ */
+function summarizeFile(fileDiff: string, kind: 'lockfile' | 'generated'): string {
+  const lines = fileDiff.split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+
+  if (firstHunk === -1) {
+    return fileDiff;
   }
 
-  return filteredLines.join('\n');
+  const body = lines.slice(firstHunk);
+  const added = body.filter(line => line.startsWith('+')).length;
+  const removed = body.filter(line => line.startsWith('-')).length;
+  const trailing = lines[lines.length - 1] === '' ? [''] : [];
+
+  return [...lines.slice(0, firstHunk), `[${kind}: ${added} added and ${removed} removed lines]`, ...trailing].join('\n');
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { execSync } from 'child_process';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  renameSync,
+  unlinkSync,
+  chmodSync
+} from 'fs';
+import { join, resolve } from 'path';
+
+export type HookName = 'prepare-commit-msg' | 'commit-msg';
+export type HookState = 'installed' | 'chained' | 'not installed';
+
+export const HOOK_NAMES: HookName[] = ['prepare-commit-msg', 'commit-msg'];
+
+export interface HookStatus {
+  name: HookName;
+  path: string;
+  state: HookState;
+  hasOtherHook: boolean;
+}
+
+const BLOCK_START = '# >>> commitect >>>';
+const BLOCK_END = '# <<< commitect <<<';
+const CHAINED_SUFFIX = '.commitect-chained';
+
+// The shell snippet each hook runs. prepare-commit-msg never fails the commit;
+// commit-msg rejects messages that fail commitect lint.
+const HOOK_SNIPPETS: Record<HookName, string> = {
+  'prepare-commit-msg': [
+    'if command -v commitect >/dev/null 2>&1; then',
+    '  commitect hook run "$1" "$2" "$3" || true',
+    'fi'
+  ].join('\n'),
+  'commit-msg': [
+    'if command -v commitect >/dev/null 2>&1; then',
+    '  commitect lint --file "$1" || exit 1',
+    'fi'
+  ].join('\n')
+};
+
+/**
+ * Get the directory git runs hooks from, honouring core.hooksPath.
+ * For husky (core.hooksPath = .husky/_) the user-editable .husky directory is used instead,
+ * because husky regenerates the files under .husky/_.
+ */
+export function getHooksDir(): string {
+  try {
+    const dir = resolve(execSync('git rev-parse --git-path hooks', { encoding: 'utf-8' }).trim());
+    return /[\\/]\.husky[\\/]_$/.test(dir) ? resolve(dir, '..') : dir;
+  } catch {
+    throw new Error('Failed to locate the git hooks directory');
+  }
+}
+
+/**
+ * Install the commitect snippet into a hook.
+ * An existing shell hook gets the snippet inserted near the top; any other existing hook
+ * is kept under a ".commitect-chained" name and called from a new wrapper script.
+ */
+export function installHook(name: HookName): HookState {
+  const dir = getHooksDir();
+  const path = join(dir, name);
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  if (!existsSync(path)) {
+    writeHook(path, `#!/bin/sh\n${block(name)}\n`);
+    return 'installed';
+  }
+
+  const content = readFileSync(path, 'utf-8');
+
+  if (content.includes(BLOCK_START)) {
+    return existsSync(path + CHAINED_SUFFIX) ? 'chained' : 'installed';
+  }
+
+  if (isShellScript(content)) {
+    writeHook(path, insertBlock(content, block(name)));
+    return 'installed';
+  }
+
+  // Not a shell script (node, python, binary...): keep it and call it from our wrapper
+  renameSync(path, path + CHAINED_SUFFIX);
+  writeHook(path, [
+    '#!/bin/sh',
+    block(name),
+    `"$(dirname "$0")/${name}${CHAINED_SUFFIX}" "$@"`,
+    ''
+  ].join('\n'));
+
+  return 'chained';
+}
+
+/**
+ * Remove the commitect snippet from a hook, restoring any hook it chained to
+ * @returns False if the snippet was not installed
+ */
+export function uninstallHook(name: HookName): boolean {
+  const path = join(getHooksDir(), name);
+
+  if (!existsSync(path)) {
+    return false;
+  }
+
+  const content = readFileSync(path, 'utf-8');
+
+  if (!content.includes(BLOCK_START)) {
+    return false;
+  }
+
+  if (existsSync(path + CHAINED_SUFFIX)) {
+    renameSync(path + CHAINED_SUFFIX, path);
+    return true;
+  }
+
+  const remaining = removeBlock(content);
+
+  // Delete hooks that only ever contained our snippet
+  if (remaining.replace(/^#!.*$/m, '').trim() === '') {
+    unlinkSync(path);
+  } else {
+    writeHook(path, remaining);
+  }
+
+  return true;
+}
+
+/**
+ * Report whether the commitect snippet is installed in a hook
+ */
+export function getHookStatus(name: HookName): HookStatus {
+  const path = join(getHooksDir(), name);
+
+  if (!existsSync(path)) {
+    return { name, path, state: 'not installed', hasOtherHook: false };
+  }
+
+  const content = readFileSync(path, 'utf-8');
+  const chained = existsSync(path + CHAINED_SUFFIX);
+
+  if (!content.includes(BLOCK_START)) {
+    return { name, path, state: 'not installed', hasOtherHook: true };
+  }
+
+  return {
+    name,
+    path,
+    state: chained ? 'chained' : 'installed',
+    hasOtherHook: chained || removeBlock(content).replace(/^#!.*$/m, '').trim() !== ''
+  };
+}
+
+function block(name: HookName): string {
+  return `${BLOCK_START}\n${HOOK_SNIPPETS[name]}\n${BLOCK_END}`;
+}
+
+function isShellScript(content: string): boolean {
+  const shebang = content.split('\n')[0];
+  return !shebang.startsWith('#!') || /\b(sh|bash|zsh|dash)\b/.test(shebang);
+}
+
+/**
+ * Insert the block after the shebang and any husky bootstrap line, so it runs
+ * even when the rest of the hook ends with "exit"
+ */
+function insertBlock(content: string, snippet: string): string {
+  const lines = content.split('\n');
+  let index = 0;
+
+  if (lines[0]?.startsWith('#!')) index = 1;
+  if (/husky\.sh/.test(lines[index] ?? '')) index++;
+
+  lines.splice(index, 0, snippet);
+  return lines.join('\n');
+}
+
+function removeBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+
+  if (start === -1 || end === -1) {
+    return content;
+  }
+
+  const after = content.slice(end + BLOCK_END.length).replace(/^\n/, '');
+  return content.slice(0, start) + after;
+}
+
+function writeHook(path: string, content: string): void {
+  writeFileSync(path, content, 'utf-8');
+  chmodSync(path, 0o755);
+}
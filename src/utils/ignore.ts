@@ -0,0 +1,165 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+export const IGNORE_FILE = '.commitectignore';
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;  // "!pattern" brings back what an earlier rule ignored
+  dirOnly: boolean; // "pattern/" only matches directories
+}
+
+export const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+  'packages.lock.json'
+];
+
+const MINIFIED_PATTERNS = [/\.min\.(js|mjs|css)$/i, /[.-]bundle\.(js|mjs|css)$/i];
+
+// Lines this long only show up in minified or generated output
+const MINIFIED_LINE_LENGTH = 1000;
+
+/**
+ * Build a matcher for gitignore-style patterns. The last matching pattern wins, and like git,
+ * nothing inside an ignored directory can be brought back by a later "!" pattern.
+ * @param patterns - Lines such as "dist/", "/bin/", "*.log", "docs/**" or "!keep.log"
+ * @returns Whether a path relative to the repository root is ignored
+ */
+export function createIgnoreMatcher(patterns: string[]): (path: string) => boolean {
+  const rules = patterns.map(compileRule).filter((rule): rule is IgnoreRule => rule !== null);
+
+  const decide = (path: string, isDir: boolean): boolean | undefined => {
+    let ignored: boolean | undefined;
+    for (const rule of rules) {
+      if ((!rule.dirOnly || isDir) && rule.regex.test(path)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  return (path: string): boolean => {
+    const parts = path.split('/');
+
+    for (let i = 1; i < parts.length; i++) {
+      if (decide(parts.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+
+    return decide(path, false) ?? false;
+  };
+}
+
+/**
+ * Read the patterns of a repository's .commitectignore
+ * @returns Its lines, or none when there is no file
+ */
+export function readIgnoreFile(root: string): string[] {
+  const path = join(root, IGNORE_FILE);
+
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  return readFileSync(path, 'utf-8').split(/\r?\n/);
+}
+
+export function isLockfile(path: string): boolean {
+  return LOCKFILES.includes(path.split('/').pop() ?? path);
+}
+
+/**
+ * Tell minified bundles apart by name, or by added lines no person would write
+ */
+export function isMinified(path: string, addedLines: string[] = []): boolean {
+  if (MINIFIED_PATTERNS.some(pattern => pattern.test(path))) {
+    return true;
+  }
+
+  return /\.(js|mjs|cjs|css)$/i.test(path) && addedLines.some(line => line.length > MINIFIED_LINE_LENGTH);
+}
+
+function compileRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negate = pattern.startsWith('!');
+  if (negate) {
+    pattern = pattern.slice(1);
+  }
+  pattern = pattern.replace(/^\\([#!])/, '$1');
+
+  const dirOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+
+  // A slash anywhere but at the end ties the pattern to the root, otherwise it matches at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+
+  if (!pattern) {
+    return null;
+  }
+
+  const body = toRegexSource(pattern);
+  return {
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    negate,
+    dirOnly
+  };
+}
+
+function toRegexSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      const atStart = i === 0 || pattern[i - 1] === '/';
+      if (atStart && pattern[i + 2] === '/') {
+        source += '(?:.*/)?'; // "**/" is zero or more directories
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${set}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegex(pattern[++i]);
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+
+  return source;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
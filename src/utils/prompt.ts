@@ -0,0 +1,103 @@
+import { createInterface } from 'readline';
+import { spawnSync } from 'child_process';
+import { writeFileSync, readFileSync, unlinkSync, mkdtempSync, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface Choice {
+  key: string;
+  label: string;
+}
+
+/**
+ * Check whether the user can answer prompts
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Ask a question on the terminal and wait for the answer
+ */
+export function ask(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Ask the user to pick one of several single-key choices, repeating until the answer is valid
+ * @returns The key of the selected choice
+ */
+export async function choose(question: string, choices: Choice[]): Promise<string> {
+  const menu = choices.map(c => `[${c.key}] ${c.label}`).join('  ');
+
+  for (;;) {
+    const answer = (await ask(`${question} ${menu}: `)).toLowerCase();
+    const match = choices.find(c => c.key === answer);
+
+    if (match) {
+      return match.key;
+    }
+  }
+}
+
+/**
+ * Ask the user to pick an item from a numbered list
+ * @returns The selected item, or null if the answer was empty
+ */
+export async function pick(question: string, items: readonly string[]): Promise<string | null> {
+  items.forEach((item, index) => console.log(`  ${index + 1}) ${item}`));
+
+  for (;;) {
+    const answer = await ask(`${question} (1-${items.length}, empty to cancel): `);
+
+    if (!answer) {
+      return null;
+    }
+
+    const index = Number(answer) - 1;
+    if (Number.isInteger(index) && index >= 0 && index < items.length) {
+      return items[index];
+    }
+  }
+}
+
+/**
+ * Open text in the user's editor ($VISUAL, $EDITOR, or vi)
+ * @returns The edited text with "#" comment lines removed
+ */
+export function editInEditor(text: string): string {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const dir = mkdtempSync(join(tmpdir(), 'commitect-'));
+  const file = join(dir, 'COMMIT_EDITMSG');
+
+  try {
+    writeFileSync(file, text + '\n\n# Edit the commit message above. Lines starting with "#" are ignored.\n', 'utf-8');
+
+    // The editor may come with arguments, e.g. "code --wait"
+    const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+
+    if (result.status !== 0) {
+      throw new Error(`Editor exited with code ${result.status}`);
+    }
+
+    return readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(line => !line.startsWith('#'))
+      .join('\n')
+      .trim();
+  } finally {
+    try {
+      unlinkSync(file);
+      rmdirSync(dir);
+    } catch {
+      // Leftover temp files are harmless
+    }
+  }
+}
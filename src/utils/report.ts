@@ -0,0 +1,47 @@
+import { getHeadCommit, getUntrackedFiles, DiffSelection } from './git.js';
+import { parseDiff, FileStatus } from './diff.js';
+import chalk from 'chalk';
+
+// How each file status reads in the report of what a diff covers
+const STATUS_LABELS: Record<FileStatus | 'untracked', string> = {
+  modified: 'modified',
+  added: 'added',
+  untracked: 'untracked',
+  deleted: 'deleted',
+  renamed: 'renamed',
+  copied: 'copied',
+  binary: 'binary',
+  mode: 'mode changed'
+};
+
+// Untracked files named in the report before the rest is counted
+const MAX_UNTRACKED_SHOWN = 5;
+
+/**
+ * Report which files a diff covers, naming untracked files and noting a first commit
+ * @param diff - The diff that will be described
+ * @param selection - The selection it was read for
+ */
+export function printIncluded(diff: string, selection: DiffSelection): void {
+  const { files } = parseDiff(diff);
+  const untracked = new Set(selection.mode === 'staged' ? [] : getUntrackedFiles(selection.paths));
+  const counts = new Map<string, number>();
+
+  for (const file of files) {
+    const label = STATUS_LABELS[untracked.has(file.path) ? 'untracked' : file.status];
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+
+  const breakdown = [...counts.entries()].map(([label, count]) => `${count} ${label}`).join(', ');
+  console.log(chalk.gray(`📄 Including ${files.length} file${files.length !== 1 ? 's' : ''}: ${breakdown}`));
+
+  const shown = files.map(file => file.path).filter(path => untracked.has(path));
+  if (shown.length > 0) {
+    const rest = shown.length - MAX_UNTRACKED_SHOWN;
+    console.log(chalk.gray(`   Untracked: ${shown.slice(0, MAX_UNTRACKED_SHOWN).join(', ')}${rest > 0 ? ` and ${rest} more` : ''}`));
+  }
+
+  if (selection.mode !== 'unstaged' && !getHeadCommit()) {
+    console.log(chalk.gray('   No commits yet, compared against the empty tree'));
+  }
+}
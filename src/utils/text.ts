@@ -0,0 +1,17 @@
+/**
+ * Uppercase the first letter, leaving the rest as it is
+ */
+export function upperFirst(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Lowercase the first letter, leaving acronyms such as "API" or "README" alone
+ */
+export function lowerFirst(text: string): string {
+  if (/^[A-Z]{2,}/.test(text)) {
+    return text;
+  }
+
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
@@ -0,0 +1,41 @@
+const UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration such as "30m", "12h", "7d" or "2w". A bare number means days.
+ * @returns The duration in milliseconds
+ * @throws If the value is not a duration
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhdw]?)$/i.exec(value.trim());
+
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", use e.g. 30m, 12h, 7d or 2w`);
+  }
+
+  return Number(match[1]) * UNITS[(match[2] || 'd').toLowerCase()];
+}
+
+/**
+ * Parse a starting point given either as a duration ago ("7d") or as a date ("2026-01-31")
+ * @returns The point in time as a timestamp
+ * @throws If the value is neither
+ */
+export function parseSince(value: string): number {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value.trim())) {
+    const date = Date.parse(value.trim());
+    if (!Number.isNaN(date)) {
+      return date;
+    }
+  }
+
+  try {
+    return Date.now() - parseDuration(value);
+  } catch {
+    throw new Error(`Invalid --since value "${value}", use a duration such as 7d or a date such as 2026-01-31`);
+  }
+}